@@ -1,30 +1,40 @@
 import React, { useState } from 'react';
-import { MessageSquare, Loader2, FolderTree } from 'lucide-react';
-import { aiService, type AIProvider } from '../lib/ai-providers';
-
-interface Step {
-  description: string;
-  prompt: string;
-  completed: boolean;
-}
-
-interface FileStructure {
-  name: string;
-  type: 'file' | 'directory';
-  children?: FileStructure[];
-}
+import { MessageSquare, Loader2, FolderTree, FolderPlus } from 'lucide-react';
+import ChatPanel from './ChatPanel';
+import ProviderSelect from './ProviderSelect';
+import { aiService, LLMRequestError, type AIProvider, type ChatMessage, type FileStructure } from '../lib/ai-providers';
+import type { Step } from '../lib/plan-runner';
 
 interface AIAssistantProps {
   onPlanGenerated: (plan: Step[]) => void;
+  onApplyStructure: (structure: FileStructure[], requirements: string, provider: AIProvider) => void;
+  chat: ChatMessage[];
+  onChatChange: React.Dispatch<React.SetStateAction<ChatMessage[]>>;
+  // Path -> content of every project file, for @mentions in the chat.
+  files: Record<string, string>;
+  binaryFiles: Set<string>;
+  currentFile: string;
+  onApplyCode: (path: string, code: string) => void;
 }
 
-export default function AIAssistant({ onPlanGenerated }: AIAssistantProps) {
+export default function AIAssistant({
+  onPlanGenerated,
+  onApplyStructure,
+  chat,
+  onChatChange,
+  files,
+  binaryFiles,
+  currentFile,
+  onApplyCode
+}: AIAssistantProps) {
+  const [mode, setMode] = useState<'chat' | 'plan'>('plan');
   const [prompt, setPrompt] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [provider, setProvider] = useState<AIProvider>('gemini');
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<{ message: string; details: string[] } | null>(null);
   const [projectType, setProjectType] = useState('web');
   const [fileStructure, setFileStructure] = useState<FileStructure[]>([]);
+  const [requirements, setRequirements] = useState('');
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -47,13 +57,20 @@ export default function AIAssistant({ onPlanGenerated }: AIAssistantProps) {
       
       if (projectType === 'local') {
         setFileStructure(structure);
+        setRequirements(prompt);
       } else {
         setFileStructure([]);
       }
       
       setPrompt('');
     } catch (err) {
-      setError('Failed to generate plan. Please check your API keys and try again.');
+      if (err instanceof LLMRequestError && err.status === 422) {
+        setError({ message: 'The model kept returning an invalid plan. Try rephrasing or another provider.', details: err.details });
+      } else if (err instanceof LLMRequestError && err.status < 500) {
+        setError({ message: `Failed to generate plan: ${err.message}`, details: err.details });
+      } else {
+        setError({ message: 'Failed to generate plan. Please check your API keys and try again.', details: [] });
+      }
       console.error(err);
     } finally {
       setIsLoading(false);
@@ -87,64 +104,101 @@ export default function AIAssistant({ onPlanGenerated }: AIAssistantProps) {
           <h2 className="text-lg font-semibold">AI Assistant</h2>
         </div>
         <div className="flex items-center space-x-2">
-          <select
-            value={projectType}
-            onChange={(e) => setProjectType(e.target.value)}
-            className="bg-gray-900 text-white rounded-md px-3 py-1 border border-gray-700 focus:ring-2 focus:ring-blue-500 focus:outline-none"
-          >
-            <option value="web">Serverless Web App</option>
-            <option value="local">Local App</option>
-          </select>
-          <select
+          <div className="flex rounded-md border border-gray-700 overflow-hidden text-sm">
+            {(['plan', 'chat'] as const).map(option => (
+              <button
+                key={option}
+                onClick={() => setMode(option)}
+                className={`px-3 py-1 ${mode === option ? 'bg-blue-500 text-white' : 'bg-gray-900 text-gray-400 hover:bg-gray-700'}`}
+              >
+                {option === 'plan' ? 'Plan' : 'Chat'}
+              </button>
+            ))}
+          </div>
+          {mode === 'plan' && (
+            <select
+              value={projectType}
+              onChange={(e) => setProjectType(e.target.value)}
+              className="bg-gray-900 text-white rounded-md px-3 py-1 border border-gray-700 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+            >
+              <option value="web">Serverless Web App</option>
+              <option value="local">Local App</option>
+            </select>
+          )}
+          <ProviderSelect
             value={provider}
-            onChange={(e) => setProvider(e.target.value as AIProvider)}
+            onChange={setProvider}
             className="bg-gray-900 text-white rounded-md px-3 py-1 border border-gray-700 focus:ring-2 focus:ring-blue-500 focus:outline-none"
-          >
-            <option value="gemini">Gemini</option>
-            <option value="mistral">Mistral</option>
-            <option value="groq">Groq</option>
-          </select>
+          />
         </div>
       </div>
-      
-      <form onSubmit={handleSubmit} className="space-y-4">
-        <textarea
-          value={prompt}
-          onChange={(e) => setPrompt(e.target.value)}
-          placeholder="Describe what you want to build..."
-          className="w-full h-32 px-3 py-2 text-white bg-gray-900 rounded-lg focus:ring-2 focus:ring-blue-500 focus:outline-none"
+
+      {mode === 'chat' ? (
+        <ChatPanel
+          messages={chat}
+          onMessagesChange={onChatChange}
+          provider={provider}
+          files={files}
+          binaryFiles={binaryFiles}
+          currentFile={currentFile}
+          onApplyCode={onApplyCode}
         />
-        
-        {error && (
-          <div className="text-red-400 text-sm bg-red-900/20 p-3 rounded-lg">
-            {error}
-          </div>
-        )}
-        
-        <button
-          type="submit"
-          disabled={isLoading || !prompt.trim()}
-          className="w-full flex items-center justify-center space-x-2 bg-blue-500 hover:bg-blue-600 disabled:bg-blue-800 disabled:cursor-not-allowed px-4 py-2 rounded-lg transition-colors"
-        >
-          {isLoading ? (
-            <>
-              <Loader2 className="h-5 w-5 animate-spin" />
-              <span>Generating Plan...</span>
-            </>
-          ) : (
-            <>
-              <MessageSquare className="h-5 w-5" />
-              <span>Generate Development Plan</span>
-            </>
-          )}
-        </button>
-      </form>
+      ) : (
+        <>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <textarea
+              value={prompt}
+              onChange={(e) => setPrompt(e.target.value)}
+              placeholder="Describe what you want to build..."
+              className="w-full h-32 px-3 py-2 text-white bg-gray-900 rounded-lg focus:ring-2 focus:ring-blue-500 focus:outline-none"
+            />
 
-      {fileStructure.length > 0 && (
-        <div className="mt-6 bg-gray-900 p-4 rounded-lg">
-          <h3 className="text-lg font-semibold mb-3">Project File Structure</h3>
-          {renderFileStructure(fileStructure)}
-        </div>
+            {error && (
+              <div className="text-red-400 text-sm bg-red-900/20 p-3 rounded-lg">
+                {error.message}
+                {error.details.length > 0 && (
+                  <ul className="mt-2 list-disc list-inside text-red-300 font-mono text-xs">
+                    {error.details.map((detail) => <li key={detail}>{detail}</li>)}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            <button
+              type="submit"
+              disabled={isLoading || !prompt.trim()}
+              className="w-full flex items-center justify-center space-x-2 bg-blue-500 hover:bg-blue-600 disabled:bg-blue-800 disabled:cursor-not-allowed px-4 py-2 rounded-lg transition-colors"
+            >
+              {isLoading ? (
+                <>
+                  <Loader2 className="h-5 w-5 animate-spin" />
+                  <span>Generating Plan...</span>
+                </>
+              ) : (
+                <>
+                  <MessageSquare className="h-5 w-5" />
+                  <span>Generate Development Plan</span>
+                </>
+              )}
+            </button>
+          </form>
+
+          {fileStructure.length > 0 && (
+            <div className="mt-6 bg-gray-900 p-4 rounded-lg">
+              <div className="flex items-center justify-between mb-3">
+                <h3 className="text-lg font-semibold">Project File Structure</h3>
+                <button
+                  onClick={() => onApplyStructure(fileStructure, requirements, provider)}
+                  className="flex items-center space-x-2 px-3 py-1.5 rounded bg-blue-500 hover:bg-blue-600 text-sm"
+                >
+                  <FolderPlus className="h-4 w-4" />
+                  <span>Apply structure</span>
+                </button>
+              </div>
+              {renderFileStructure(fileStructure)}
+            </div>
+          )}
+        </>
       )}
     </div>
   );
@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { Loader2, LogIn } from 'lucide-react';
+
+interface AuthFormProps {
+  client: SupabaseClient;
+}
+
+export default function AuthForm({ client }: AuthFormProps) {
+  const [mode, setMode] = useState<'sign-in' | 'sign-up'>('sign-in');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setMessage(null);
+
+    const { data, error } = mode === 'sign-in'
+      ? await client.auth.signInWithPassword({ email, password })
+      : await client.auth.signUp({ email, password });
+
+    if (error) {
+      setMessage({ text: error.message, isError: true });
+    } else if (mode === 'sign-up' && !data.session) {
+      setMessage({ text: 'Check your email to confirm your account, then sign in.', isError: false });
+    }
+    setIsLoading(false);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <p className="text-gray-300 text-sm">
+        Sign in to keep your projects in the cloud.
+      </p>
+      <input
+        type="email"
+        value={email}
+        onChange={(e) => setEmail(e.target.value)}
+        placeholder="Email"
+        required
+        className="w-full px-3 py-2 bg-gray-900 rounded-lg border border-gray-700 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+      />
+      <input
+        type="password"
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+        placeholder="Password"
+        required
+        minLength={6}
+        className="w-full px-3 py-2 bg-gray-900 rounded-lg border border-gray-700 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+      />
+      {message && (
+        <div className={`text-sm p-3 rounded-lg ${message.isError ? 'text-red-400 bg-red-900/20' : 'text-green-400 bg-green-900/20'}`}>
+          {message.text}
+        </div>
+      )}
+      <button
+        type="submit"
+        disabled={isLoading}
+        className="w-full flex items-center justify-center space-x-2 bg-blue-500 hover:bg-blue-600 disabled:bg-blue-800 disabled:cursor-not-allowed px-4 py-2 rounded-lg"
+      >
+        {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <LogIn className="h-4 w-4" />}
+        <span>{mode === 'sign-in' ? 'Sign in' : 'Create account'}</span>
+      </button>
+      <button
+        type="button"
+        onClick={() => setMode(mode === 'sign-in' ? 'sign-up' : 'sign-in')}
+        className="w-full text-sm text-gray-400 hover:text-white"
+      >
+        {mode === 'sign-in' ? 'No account? Sign up' : 'Have an account? Sign in'}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,239 @@
+import { useEffect, useRef, useState, type Dispatch, type SetStateAction } from 'react';
+import { Check, FileCode, Loader2, Send, Square, Trash2 } from 'lucide-react';
+import { aiService, LLMRequestError, type AIProvider, type ChatMessage } from '../lib/ai-providers';
+import { findMentions, parseReply, pendingMention, trimConversation, withAttachments } from '../lib/chat-context';
+import { contextBudget } from '../lib/code-context';
+
+// How many file suggestions to show while typing an @mention.
+const MAX_SUGGESTIONS = 6;
+
+interface ChatPanelProps {
+  messages: ChatMessage[];
+  onMessagesChange: Dispatch<SetStateAction<ChatMessage[]>>;
+  provider: AIProvider;
+  // Path -> content of every project file, for @mentions.
+  files: Record<string, string>;
+  // Paths of binary files, which are mentioned by name only.
+  binaryFiles: Set<string>;
+  currentFile: string;
+  onApplyCode: (path: string, code: string) => void;
+}
+
+export default function ChatPanel({ messages, onMessagesChange, provider, files, binaryFiles, currentFile, onApplyCode }: ChatPanelProps) {
+  const [input, setInput] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [applied, setApplied] = useState<Set<string>>(new Set());
+  const [isStreaming, setIsStreaming] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+  // The panel is remounted for each workspace; a reply still streaming must
+  // not write into the next workspace's chat.
+  const mountedRef = useRef(false);
+  const threadRef = useRef<HTMLDivElement | null>(null);
+
+  const paths = Object.keys(files);
+  const mention = pendingMention(input);
+  const suggestions = mention === null
+    ? []
+    : paths.filter(path => path.toLowerCase().includes(mention.toLowerCase())).slice(0, MAX_SUGGESTIONS);
+
+  useEffect(() => {
+    threadRef.current?.scrollTo({ top: threadRef.current.scrollHeight });
+  }, [messages]);
+
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+      controllerRef.current?.abort();
+    };
+  }, []);
+
+  const updateThread = (update: SetStateAction<ChatMessage[]>) => {
+    if (mountedRef.current) onMessagesChange(update);
+  };
+
+  const insertMention = (path: string) => {
+    setInput(input.replace(/@[\w./-]*$/, `@${path} `));
+  };
+
+  const send = async () => {
+    const text = input.trim();
+    if (!text || isStreaming) return;
+
+    const conversation: ChatMessage[] = [...messages, { role: 'user', content: text }];
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsStreaming(true);
+    setInput('');
+    setError(null);
+    onMessagesChange([...conversation, { role: 'assistant', content: '' }]);
+
+    try {
+      // Older turns are left out once the thread outgrows the model's window.
+      const budget = contextBudget(await aiService.contextTokens(provider).catch(() => undefined));
+      await aiService.chatStream(trimConversation(withAttachments(conversation, files, binaryFiles), budget), provider, {
+        signal: controller.signal,
+        onToken: (token) => updateThread(thread => {
+          const reply = thread[thread.length - 1];
+          return [...thread.slice(0, -1), { ...reply, content: reply.content + token }];
+        }),
+      });
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        console.error(err);
+        setError(err instanceof LLMRequestError && err.status < 500
+          ? `Failed to get a reply: ${err.message}`
+          : 'Failed to get a reply. Please check your API keys and try again.');
+        // Give the message back for another try.
+        updateThread(thread => thread[thread.length - 1].content ? thread : thread.slice(0, -2));
+        setInput(text);
+      }
+    } finally {
+      controllerRef.current = null;
+      setIsStreaming(false);
+      // A reply stopped before its first token leaves nothing worth keeping.
+      updateThread(thread => {
+        const reply = thread[thread.length - 1];
+        return reply?.role === 'assistant' && !reply.content ? thread.slice(0, -1) : thread;
+      });
+    }
+  };
+
+  const stop = () => {
+    controllerRef.current?.abort();
+  };
+
+  const clear = () => {
+    if (!window.confirm('Clear this conversation?')) return;
+    stop();
+    onMessagesChange([]);
+    setApplied(new Set());
+  };
+
+  const renderReply = (content: string, messageIndex: number) => parseReply(content).map((part, index) => {
+    if (part.type === 'text') {
+      return <div key={index} className="whitespace-pre-wrap">{part.text.trim()}</div>;
+    }
+    const target = part.path || currentFile;
+    const key = `${messageIndex}:${index}`;
+    return (
+      <div key={index} className="my-2 rounded border border-gray-700 overflow-hidden">
+        <div className="flex items-center justify-between px-2 py-1 bg-gray-800 text-xs text-gray-400">
+          <span className="flex items-center space-x-1 truncate">
+            <FileCode className="h-3 w-3 shrink-0" />
+            <span className="truncate">{part.path || part.language || 'code'}</span>
+          </span>
+          <button
+            onClick={() => {
+              onApplyCode(target, part.code);
+              setApplied(new Set(applied).add(key));
+            }}
+            disabled={isStreaming || !target}
+            className="flex items-center space-x-1 px-2 py-0.5 rounded bg-blue-500 hover:bg-blue-600 text-white disabled:bg-blue-800 disabled:cursor-not-allowed"
+            title={`Replace the contents of ${target}`}
+          >
+            {applied.has(key) && <Check className="h-3 w-3" />}
+            <span>{part.path ? 'Apply' : 'Apply to open file'}</span>
+          </button>
+        </div>
+        <pre className="p-2 text-xs font-mono overflow-x-auto bg-gray-950">{part.code}</pre>
+      </div>
+    );
+  });
+
+  return (
+    <div className="flex flex-col min-h-0 flex-1">
+      <div ref={threadRef} className="flex-1 min-h-0 overflow-auto space-y-3 text-sm">
+        {messages.length === 0 && (
+          <p className="text-gray-500">
+            Ask about the project or request changes. Mention files with @, like @{currentFile || 'src/index.js'}, to share them.
+          </p>
+        )}
+        {messages.map((message, index) => (
+          message.role === 'user' ? (
+            <div key={index} className="ml-8 p-2 rounded-lg bg-blue-900/40 whitespace-pre-wrap">
+              {message.content}
+              {findMentions(message.content, paths).length > 0 && (
+                <div className="mt-1 text-xs text-gray-400">
+                  Attached: {findMentions(message.content, paths).join(', ')}
+                </div>
+              )}
+            </div>
+          ) : (
+            <div key={index} className="mr-8 p-2 rounded-lg bg-gray-900">
+              {message.content
+                ? renderReply(message.content, index)
+                : <Loader2 className="h-4 w-4 animate-spin text-gray-400" />}
+            </div>
+          )
+        ))}
+      </div>
+
+      {error && (
+        <div className="text-red-400 text-sm bg-red-900/20 p-3 rounded-lg mt-2">{error}</div>
+      )}
+
+      <div className="relative mt-3">
+        {suggestions.length > 0 && (
+          <ul className="absolute bottom-full mb-1 w-full bg-gray-900 border border-gray-700 rounded-lg overflow-hidden text-sm z-10">
+            {suggestions.map(path => (
+              <li key={path}>
+                <button
+                  onMouseDown={(e) => {
+                    e.preventDefault();
+                    insertMention(path);
+                  }}
+                  className="w-full text-left px-3 py-1 hover:bg-gray-700 truncate"
+                >
+                  {path}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="flex space-x-2">
+          <textarea
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Tab' && suggestions.length > 0) {
+                e.preventDefault();
+                insertMention(suggestions[0]);
+              } else if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault();
+                send();
+              }
+            }}
+            placeholder="Message the assistant (Shift+Enter for a new line)"
+            rows={2}
+            className="flex-1 px-3 py-2 text-white bg-gray-900 rounded-lg focus:ring-2 focus:ring-blue-500 focus:outline-none resize-none"
+          />
+          <div className="flex flex-col space-y-1">
+            {isStreaming ? (
+              <button onClick={stop} className="p-2 rounded-lg bg-red-500 hover:bg-red-600" title="Stop">
+                <Square className="h-4 w-4" />
+              </button>
+            ) : (
+              <button
+                onClick={send}
+                disabled={!input.trim()}
+                className="p-2 rounded-lg bg-blue-500 hover:bg-blue-600 disabled:bg-blue-800 disabled:cursor-not-allowed"
+                title="Send"
+              >
+                <Send className="h-4 w-4" />
+              </button>
+            )}
+            <button
+              onClick={clear}
+              disabled={messages.length === 0}
+              className="p-2 rounded-lg hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Clear conversation"
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
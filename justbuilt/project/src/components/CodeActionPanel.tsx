@@ -0,0 +1,74 @@
+import { useState } from 'react';
+import { Lightbulb, Loader2, Square, Wand2, X } from 'lucide-react';
+
+export type CodeActionPanelState =
+  // Waiting for refactoring instructions.
+  | { type: 'instructions'; label: string }
+  | { type: 'explanation'; label: string; text: string; isStreaming: boolean; error?: string };
+
+interface CodeActionPanelProps {
+  state: CodeActionPanelState;
+  onSubmitInstructions: (instructions: string) => void;
+  onStop: () => void;
+  onClose: () => void;
+}
+
+export default function CodeActionPanel({ state, onSubmitInstructions, onStop, onClose }: CodeActionPanelProps) {
+  const [instructions, setInstructions] = useState('');
+
+  return (
+    <div className="bg-gray-900 p-4 rounded-lg text-sm">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center space-x-2 min-w-0">
+          {state.type === 'instructions'
+            ? <Wand2 className="h-4 w-4 text-blue-400 shrink-0" />
+            : <Lightbulb className="h-4 w-4 text-yellow-400 shrink-0" />}
+          <span className="font-semibold truncate">
+            {state.type === 'instructions' ? 'Refactor' : 'Explain'} {state.label}
+          </span>
+        </div>
+        <div className="flex items-center space-x-1">
+          {state.type === 'explanation' && state.isStreaming && (
+            <button onClick={onStop} className="p-1 hover:bg-gray-700 rounded" title="Stop">
+              <Square className="h-4 w-4" />
+            </button>
+          )}
+          <button onClick={onClose} className="p-1 hover:bg-gray-700 rounded" title="Close">
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+
+      {state.type === 'instructions' ? (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (instructions.trim()) onSubmitInstructions(instructions.trim());
+          }}
+          className="flex space-x-2"
+        >
+          <input
+            autoFocus
+            value={instructions}
+            onChange={(e) => setInstructions(e.target.value)}
+            placeholder="How should it change? e.g. use async/await"
+            className="flex-1 px-3 py-1.5 bg-gray-800 rounded-lg border border-gray-700 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+          />
+          <button
+            type="submit"
+            disabled={!instructions.trim()}
+            className="px-3 py-1.5 bg-blue-500 rounded-lg hover:bg-blue-600 disabled:bg-blue-800 disabled:cursor-not-allowed"
+          >
+            Refactor
+          </button>
+        </form>
+      ) : (
+        <div className="max-h-80 overflow-auto text-gray-200 whitespace-pre-wrap">
+          {state.text}
+          {state.isStreaming && !state.text && <Loader2 className="h-4 w-4 animate-spin text-gray-400" />}
+          {state.error && <div className="text-red-400 bg-red-900/20 p-2 rounded mt-2">{state.error}</div>}
+        </div>
+      )}
+    </div>
+  );
+}
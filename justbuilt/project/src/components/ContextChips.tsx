@@ -0,0 +1,93 @@
+import { Plus, RotateCcw, X } from 'lucide-react';
+import type { CodeContext, ContextMode, ContextReason } from '../lib/code-context';
+
+const REASON_LABELS: Record<ContextReason, string> = {
+  current: 'open file',
+  import: 'imported',
+  importer: 'imports the open file',
+  open: 'open tab',
+  added: 'added',
+  project: 'project file',
+};
+
+const MODE_STYLES: Record<ContextMode, string> = {
+  full: 'bg-gray-700 text-gray-200',
+  outline: 'bg-yellow-900/60 text-yellow-200',
+  truncated: 'bg-orange-900/60 text-orange-200',
+  omitted: 'bg-gray-800 text-gray-500 line-through',
+};
+
+function formatTokens(tokens: number) {
+  return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+}
+
+interface ContextChipsProps {
+  context: CodeContext;
+  // Lines of the open file the generation replaces, if any are selected.
+  selectedLines: [number, number] | null;
+  // Files that can still be added.
+  addablePaths: string[];
+  edited: boolean;
+  onAdd: (path: string) => void;
+  onRemove: (path: string) => void;
+  onReset: () => void;
+}
+
+export default function ContextChips({
+  context,
+  selectedLines,
+  addablePaths,
+  edited,
+  onAdd,
+  onRemove,
+  onReset
+}: ContextChipsProps) {
+  return (
+    <div className="mt-3 text-xs">
+      <div className="flex items-center justify-between text-gray-400 mb-1">
+        <span>
+          Context: {formatTokens(context.tokens)} of {formatTokens(context.budget)} tokens
+          {selectedLines && `, replacing lines ${selectedLines[0]}-${selectedLines[1]}`}
+        </span>
+        {edited && (
+          <button onClick={onReset} className="flex items-center space-x-1 hover:text-white" title="Go back to the suggested files">
+            <RotateCcw className="h-3 w-3" />
+            <span>Reset</span>
+          </button>
+        )}
+      </div>
+      <div className="flex flex-wrap gap-1">
+        {context.files.map(file => (
+          <span
+            key={file.path}
+            className={`flex items-center space-x-1 pl-2 pr-1 py-0.5 rounded-full ${MODE_STYLES[file.mode]}`}
+            title={`${file.path}: ${REASON_LABELS[file.reason]}, ${file.mode === 'full' ? 'sent in full' : file.mode}`}
+          >
+            <span className="max-w-[10rem] truncate">{file.path}</span>
+            {file.mode !== 'full' && file.mode !== 'omitted' && <span className="opacity-75">{file.mode}</span>}
+            <span className="opacity-60">{formatTokens(file.tokens)}</span>
+            <button onClick={() => onRemove(file.path)} className="p-0.5 rounded-full hover:bg-gray-600" title="Don't send this file">
+              <X className="h-3 w-3" />
+            </button>
+          </span>
+        ))}
+        {addablePaths.length > 0 && (
+          <label className="flex items-center pl-1 rounded-full border border-dashed border-gray-600 text-gray-400 hover:text-white">
+            <Plus className="h-3 w-3" />
+            <select
+              value=""
+              onChange={(e) => e.target.value && onAdd(e.target.value)}
+              className="bg-transparent pr-1 focus:outline-none"
+              title="Send another file"
+            >
+              <option value="">Add file</option>
+              {addablePaths.map(path => (
+                <option key={path} value={path}>{path}</option>
+              ))}
+            </select>
+          </label>
+        )}
+      </div>
+    </div>
+  );
+}
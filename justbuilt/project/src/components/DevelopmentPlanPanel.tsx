@@ -0,0 +1,99 @@
+import { CheckCircle2, XCircle, Loader2, Play, FastForward, Pause, Square } from 'lucide-react';
+import type { AutopilotState, Step } from '../lib/plan-runner';
+
+interface DevelopmentPlanPanelProps {
+  plan: Step[];
+  runningStep: number | null;
+  autopilot: AutopilotState;
+  onToggleStep: (index: number) => void;
+  onRunStep: (index: number) => void;
+  onStartAutopilot: () => void;
+  onStopAutopilot: () => void;
+}
+
+export default function DevelopmentPlanPanel({
+  plan,
+  runningStep,
+  autopilot,
+  onToggleStep,
+  onRunStep,
+  onStartAutopilot,
+  onStopAutopilot
+}: DevelopmentPlanPanelProps) {
+  const remaining = plan.filter(step => !step.completed).length;
+
+  return (
+    <div className="bg-gray-900 rounded-lg p-4 flex-1 overflow-auto">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-semibold">Development Plan</h3>
+        <div className="flex items-center space-x-2">
+          {autopilot === 'paused' && (
+            <span className="flex items-center space-x-1 text-sm text-yellow-400">
+              <Pause className="h-4 w-4" />
+              <span>Review the changes, then continue</span>
+            </span>
+          )}
+          {autopilot !== 'off' && (
+            <button
+              onClick={onStopAutopilot}
+              className="flex items-center space-x-1 px-3 py-1.5 rounded bg-gray-700 hover:bg-gray-600 text-sm"
+            >
+              <Square className="h-4 w-4" />
+              <span>Stop</span>
+            </button>
+          )}
+          <button
+            onClick={onStartAutopilot}
+            disabled={autopilot === 'running' || runningStep !== null || remaining === 0}
+            className="flex items-center space-x-1 px-3 py-1.5 rounded bg-blue-500 hover:bg-blue-600 disabled:bg-blue-800 disabled:cursor-not-allowed text-sm"
+          >
+            <FastForward className="h-4 w-4" />
+            <span>{autopilot === 'paused' ? 'Continue' : 'Autopilot'}</span>
+          </button>
+        </div>
+      </div>
+      <div className="space-y-4">
+        {plan.map((step, index) => (
+          <div key={index} className="bg-gray-800 p-4 rounded-lg">
+            <div className="flex items-start justify-between">
+              <div className="flex-1">
+                <h4 className="font-medium mb-2">{step.description}</h4>
+                <p className="text-sm text-gray-400">Prompt: {step.prompt}</p>
+                {step.changedFiles && step.changedFiles.length > 0 && (
+                  <p className="text-xs text-gray-500 mt-2">
+                    Changed: <span className="font-mono">{step.changedFiles.join(', ')}</span>
+                  </p>
+                )}
+                {step.error && (
+                  <p className="text-xs text-red-400 mt-2">{step.error}</p>
+                )}
+              </div>
+              <button
+                onClick={() => onRunStep(index)}
+                disabled={runningStep !== null || autopilot === 'running'}
+                className="ml-4 text-gray-400 hover:text-white disabled:cursor-not-allowed"
+                title="Run step"
+              >
+                {runningStep === index ? (
+                  <Loader2 className="h-6 w-6 animate-spin text-blue-400" />
+                ) : (
+                  <Play className="h-6 w-6" />
+                )}
+              </button>
+              <button
+                onClick={() => onToggleStep(index)}
+                className={`ml-2 ${step.completed ? 'text-green-400' : 'text-gray-400'}`}
+              >
+                {step.completed ? (
+                  <CheckCircle2 className="h-6 w-6" />
+                ) : (
+                  <XCircle className="h-6 w-6" />
+                )}
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,167 +1,684 @@
-import React, { useRef, useState } from 'react';
-import Editor from '@monaco-editor/react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import Editor, { loader, type OnMount } from '@monaco-editor/react';
 import { Panel, PanelGroup, PanelResizeHandle } from 'react-resizable-panels';
-import { Code2, Play, Settings as SettingsIcon, Download, Upload, Save, MessageSquare, CheckCircle2, XCircle, Loader2 } from 'lucide-react';
+import { Code2, Play, Settings as SettingsIcon, Download, Upload, Save, MessageSquare, Square, FolderOpen, FolderUp, FileJson, Eye, X, Files, Search } from 'lucide-react';
 import AIAssistant from './AIAssistant';
 import Settings from './Settings';
 import FileTree from './FileTree';
-import { aiService, type AIProvider } from '../lib/ai-providers';
+import EditorTabs from './EditorTabs';
+import EditorStatusBar from './EditorStatusBar';
+import SearchPanel from './SearchPanel';
+import ProviderSelect from './ProviderSelect';
+import ScaffoldPanel from './ScaffoldPanel';
+import DevelopmentPlanPanel from './DevelopmentPlanPanel';
+import GeneratedCodeReview, { type ReviewMode } from './GeneratedCodeReview';
+import ContextChips from './ContextChips';
+import CodeActionPanel, { type CodeActionPanelState } from './CodeActionPanel';
+import WorkspacePicker, { type ActiveWorkspace } from './WorkspacePicker';
+import RecoveryPrompt from './RecoveryPrompt';
+import InputPrompt from './InputPrompt';
+import HtmlPreview from './HtmlPreview';
+import { aiService, type AIProvider, type ChatMessage, type FileStructure } from '../lib/ai-providers';
+import {
+  baseName,
+  binaryPaths,
+  duplicateNode,
+  fileContents,
+  FileTreeError,
+  findNode,
+  insertNode,
+  isWithin,
+  listFilePaths,
+  moveNode,
+  movedPath,
+  normalizePath,
+  parentPath,
+  removeNode,
+  setFileContent,
+  writeFile,
+  type FileNode,
+} from '../lib/file-tree';
+import { buildStepPrompt, type AutopilotState, type Step } from '../lib/plan-runner';
+import {
+  applyContextEdits,
+  buildCodePrompt,
+  contextBudget,
+  fitContext,
+  lineOf,
+  suggestContext,
+  type ContextEdits,
+  type ContextSelection,
+} from '../lib/code-context';
+import { scheduleSave, type Workspace, type WorkspaceData, type WorkspaceStore } from '../lib/workspace-store';
+import { localWorkspaceStore, type RecoveryDraft, type WorkspaceSource } from '../lib/indexeddb-workspace-store';
+import { cloudWorkspaceStore } from '../lib/supabase-workspace-store';
+import { appendOutput, DEFAULT_RUN_TIMEOUT_MS, MAX_OUTPUT_LINES, runCode, runtimeFor, type OutputLine, type RunHandle } from '../lib/code-runner';
+import { detectLanguage, languageName } from '../lib/languages';
+import { registerInlineCompletions, type CompletionSettings } from '../lib/inline-completions';
+import {
+  buildActionPrompt,
+  CODE_ACTIONS,
+  describeTarget,
+  latestError,
+  stripCodeFence,
+  testFilePath,
+  type ActionTarget,
+  type CodeActionKind,
+} from '../lib/code-actions';
+import type { ReplaceChange } from '../lib/project-search';
+import { compileTypeScript, isTypeScript } from '../lib/typescript-build';
+import { parseProjectFile, pickOpenFile, ProjectFileError, serializeProjectFile } from '../lib/project-file';
+import { ArchiveError, exportZip, importEntries, readDroppedItems, readFileList, readZip, type ImportEntry } from '../lib/project-archive';
+import {
+  buildFilePrompt,
+  findConflicts,
+  mergeStructure,
+  type ConflictResolution,
+  type ScaffoldJob,
+  type StructureConflict,
+} from '../lib/scaffold';
 
-interface Step {
-  description: string;
-  prompt: string;
-  completed: boolean;
+type MonacoEditor = Parameters<OnMount>[0];
+type Monaco = Parameters<OnMount>[1];
+
+type SaveStatus = 'idle' | 'pending' | 'saving' | 'saved' | 'error';
+
+// Changes are written to the open workspace once editing pauses this long.
+const SAVE_DEBOUNCE_MS = 1500;
+// The local recovery draft is written much sooner, so little is lost on a crash.
+const DRAFT_DEBOUNCE_MS = 300;
+
+const outputColors: Record<OutputLine['level'], string> = {
+  log: 'text-gray-200',
+  info: 'text-blue-300',
+  debug: 'text-gray-500',
+  warn: 'text-yellow-400',
+  error: 'text-red-400',
+  system: 'text-gray-500 italic',
+};
+
+const editorOptions = {
+  minimap: { enabled: true },
+  fontSize: 14,
+  lineNumbers: 'on',
+  roundedSelection: false,
+  scrollBeyondLastLine: false,
+  automaticLayout: true,
+  wordWrap: 'on',
+  formatOnPaste: true,
+  formatOnType: true,
+  suggestOnTriggerCharacters: true,
+  tabSize: 2,
+  autoIndent: 'full',
+  colorDecorators: true,
+  inlineSuggest: { enabled: true, showToolbar: 'onHover' },
+} as const;
+
+const DEFAULT_COMPLETIONS: CompletionSettings = { enabled: false, provider: 'gemini' };
+
+const starterFiles: FileNode[] = [
+  {
+    name: 'src',
+    type: 'directory',
+    children: [
+      {
+        name: 'index.js',
+        type: 'file',
+        content: '// Start coding here...'
+      }
+    ]
+  }
+];
+
+function storeFor(source: WorkspaceSource): WorkspaceStore | null {
+  return source === 'local' ? localWorkspaceStore : cloudWorkspaceStore;
 }
 
-interface FileNode {
-  name: string;
-  type: 'file' | 'directory';
-  children?: FileNode[];
-  content?: string;
+// Stable serialisation used to tell whether anything changed since the last save.
+function snapshotOf(data: WorkspaceData) {
+  return JSON.stringify({
+    files: data.files,
+    settings: {
+      theme: data.settings.theme,
+      mainFile: data.settings.mainFile,
+      languages: data.settings.languages || {},
+      completions: data.settings.completions || DEFAULT_COMPLETIONS,
+    },
+    developmentPlan: data.developmentPlan,
+    chat: data.chat || [],
+  });
+}
+
+interface PendingReview {
+  path: string;
+  original: string;
+  selection: { start: number; end: number };
+  generated: string;
+  mode?: ReviewMode;
+}
+
+// The last delete, kept so it can be undone.
+interface DeletedEntry {
+  path: string;
+  node: FileNode;
+  // The open file and main file, when they were inside what was deleted.
+  openFile: string | null;
+  mainFile: string | null;
+  languageOverrides: Record<string, string>;
+}
+
+interface PendingStructure {
+  structure: FileStructure[];
+  requirements: string;
+  provider: AIProvider;
 }
 
 export default function CodeEditor() {
-  const editorRef = useRef(null);
+  const editorRef = useRef<MonacoEditor | null>(null);
+  const monacoRef = useRef<Monaco | null>(null);
+  const generationRef = useRef<AbortController | null>(null);
   const [developmentPlan, setDevelopmentPlan] = useState<Step[]>([]);
-  const [language, setLanguage] = useState('javascript');
+  const [chat, setChat] = useState<ChatMessage[]>([]);
+  // Path -> language chosen in the status bar, for files not shown as detected.
+  const [languageOverrides, setLanguageOverrides] = useState<Record<string, string>>({});
   const [theme, setTheme] = useState('vs-dark');
+  const [completions, setCompletions] = useState<CompletionSettings>(DEFAULT_COMPLETIONS);
+  // Read by the inline completion provider, which Monaco keeps for the editor's lifetime.
+  const completionsRef = useRef(completions);
+  completionsRef.current = completions;
   const [selectedProvider, setSelectedProvider] = useState<AIProvider>('gemini');
   const [codePrompt, setCodePrompt] = useState('');
   const [isGeneratingCode, setIsGeneratingCode] = useState(false);
+  const [review, setReview] = useState<PendingReview | null>(null);
+  // Selection in the main editor, as offsets into the open file.
+  const [selection, setSelection] = useState<ContextSelection>({ start: 0, end: 0 });
+  // Files added to or removed from the suggested code generation context.
+  const [contextEdits, setContextEdits] = useState<ContextEdits>({ added: [], removed: [] });
+  // The explanation or refactoring prompt shown for an AI code action.
+  const [actionPanel, setActionPanel] = useState<CodeActionPanelState | null>(null);
+  const [refactorTarget, setRefactorTarget] = useState<ActionTarget | null>(null);
+  const explainRef = useRef<AbortController | null>(null);
+  // Window of the selected provider's model; a default budget applies until known.
+  const [contextTokens, setContextTokens] = useState<number | undefined>(undefined);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
-  const [output, setOutput] = useState('');
+  const [isWorkspacePickerOpen, setIsWorkspacePickerOpen] = useState(false);
+  const [activeWorkspace, setActiveWorkspace] = useState<ActiveWorkspace | null>(null);
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>('idle');
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [recoveryDraft, setRecoveryDraft] = useState<RecoveryDraft | null>(null);
+  // Snapshot of what the active workspace last held, and of the latest edit.
+  const savedSnapshotRef = useRef<string | null>(null);
+  const latestSnapshotRef = useRef<string | null>(null);
+  const [output, setOutput] = useState<OutputLine[]>([]);
+  // Lines waiting for the next frame, see appendOutputLine.
+  const pendingOutputRef = useRef<OutputLine[]>([]);
+  const outputFrameRef = useRef<number | null>(null);
   const [isRunning, setIsRunning] = useState(false);
-  const [files, setFiles] = useState<FileNode[]>([
-    {
-      name: 'src',
-      type: 'directory',
-      children: [
-        {
-          name: 'index.js',
-          type: 'file',
-          content: '// Start coding here...'
+  const [runTimeoutMs, setRunTimeoutMs] = useState(DEFAULT_RUN_TIMEOUT_MS);
+  const [mainFile, setMainFile] = useState('');
+  const [previewPath, setPreviewPath] = useState<string | null>(null);
+  const runRef = useRef<RunHandle | null>(null);
+  // Read by the code actions registered on the editor when it mounts.
+  const codeActionRef = useRef<(kind: CodeActionKind) => void>(() => {});
+  const lastErrorRef = useRef<string | null>(null);
+  const [pendingInput, setPendingInput] = useState<{ prompt: string; resolve: (line: string | null) => void } | null>(null);
+  const [files, setFiles] = useState<FileNode[]>(starterFiles);
+  const [currentFile, setCurrentFile] = useState('src/index.js');
+  const [deleted, setDeleted] = useState<DeletedEntry | null>(null);
+  // Tabs, in order. Each open file keeps its own model, and so its undo history.
+  const [openFiles, setOpenFiles] = useState<string[]>(['src/index.js']);
+  const openFilesRef = useRef(openFiles);
+  // File shown in the right-hand editor, when the editor is split.
+  const [splitFile, setSplitFile] = useState<string | null>(null);
+  const [sidebar, setSidebar] = useState<'files' | 'search'>('files');
+  // A search result to select once its file is showing in the editor.
+  const [reveal, setReveal] = useState<{ path: string; line: number; column: number; length: number } | null>(null);
+  const [lastReplace, setLastReplace] = useState<ReplaceChange[] | null>(null);
+  // What each file held when the workspace was last saved, to mark dirty tabs.
+  const [savedContents, setSavedContents] = useState<Record<string, string>>(() => fileContents(starterFiles));
+  const [runningStep, setRunningStep] = useState<number | null>(null);
+  const [autopilot, setAutopilot] = useState<AutopilotState>('off');
+  const [pendingStructure, setPendingStructure] = useState<PendingStructure | null>(null);
+  const [scaffoldConflicts, setScaffoldConflicts] = useState<StructureConflict[] | null>(null);
+  const [scaffoldJobs, setScaffoldJobs] = useState<ScaffoldJob[]>([]);
+  // Cleared when the scaffold panel is closed so in-flight generations are dropped.
+  const scaffoldRef = useRef<(PendingStructure & { paths: string[] }) | null>(null);
+
+  const workspaceData: WorkspaceData = {
+    files,
+    settings: { theme, mainFile, languages: languageOverrides, completions },
+    developmentPlan,
+    chat,
+  };
+
+  // Read by the restore below, which runs once and so cannot depend on it.
+  const openWorkspaceRef = useRef(openWorkspace);
+  openWorkspaceRef.current = openWorkspace;
+
+  // Restore the last open workspace, or the most recent local one when that
+  // is gone or out of reach (a cloud workspace after signing out), or keep the
+  // starter project in a new local one. Runs once; the cancelled flag covers
+  // StrictMode's double run.
+  useEffect(() => {
+    let cancelled = false;
+
+    async function restore() {
+      try {
+        const [draft, last] = await Promise.all([
+          localWorkspaceStore.loadDraft(),
+          localWorkspaceStore.getLastOpened(),
+        ]);
+        if (cancelled) return;
+        if (draft) setRecoveryDraft(draft);
+
+        const store = last && storeFor(last.source);
+        const workspace = store && last ? await store.get(last.id).catch(() => null) : null;
+        if (cancelled) return;
+        if (workspace && last) {
+          openWorkspaceRef.current(last.source, workspace);
+          return;
         }
-      ]
+
+        const [recent] = await localWorkspaceStore.list();
+        const local = recent ? await localWorkspaceStore.get(recent.id) : null;
+        if (cancelled) return;
+        if (local) {
+          openWorkspaceRef.current('local', local);
+          return;
+        }
+
+        const created = await localWorkspaceStore.create('Untitled project', {
+          files: starterFiles,
+          settings: { theme: 'vs-dark' },
+          developmentPlan: [],
+        });
+        if (!cancelled) openWorkspaceRef.current('local', created);
+      } catch (error) {
+        console.error('Error restoring workspace:', error);
+      }
     }
-  ]);
-  const [currentFile, setCurrentFile] = useState('src/index.js');
 
-  function handleEditorDidMount(editor) {
-    editorRef.current = editor;
+    restore();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Autosave: every change goes to the recovery draft almost at once and to
+  // the workspace itself once editing pauses. Held back while the recovery
+  // prompt is open so the draft it offers is not overwritten.
+  useEffect(() => {
+    if (!activeWorkspace || recoveryDraft) return;
+
+    const data = { files, settings: { theme, mainFile, languages: languageOverrides, completions }, developmentPlan, chat };
+    const snapshot = snapshotOf(data);
+    latestSnapshotRef.current = snapshot;
+    if (snapshot === savedSnapshotRef.current) return;
+
+    setSaveStatus('pending');
+    const draftTimer = setTimeout(() => {
+      localWorkspaceStore.saveDraft({
+        source: activeWorkspace.source,
+        workspaceId: activeWorkspace.id,
+        workspaceName: activeWorkspace.name,
+        data,
+        updatedAt: new Date().toISOString(),
+      }).catch((error) => console.error('Error saving recovery draft:', error));
+    }, DRAFT_DEBOUNCE_MS);
+
+    const cancelSave = scheduleSave(activeWorkspace.store, activeWorkspace.id, data, SAVE_DEBOUNCE_MS, {
+      onSaving: () => setSaveStatus('saving'),
+      onSaved: async () => {
+        savedSnapshotRef.current = snapshot;
+        setSavedContents(fileContents(data.files));
+        setSaveStatus('saved');
+        if (latestSnapshotRef.current === snapshot) {
+          await localWorkspaceStore.clearDraft();
+        }
+      },
+      onError: (error) => {
+        console.error('Error saving workspace:', error);
+        setSaveError(error.message);
+        setSaveStatus('error');
+      },
+    });
+
+    return () => {
+      clearTimeout(draftTimer);
+      cancelSave();
+    };
+  }, [activeWorkspace, recoveryDraft, files, theme, mainFile, languageOverrides, completions, developmentPlan, chat]);
+
+  function loadWorkspaceData(data: WorkspaceData) {
+    setFiles(data.files);
+    setLanguageOverrides(data.settings.languages || {});
+    setTheme(data.settings.theme || 'vs-dark');
+    setMainFile(data.settings.mainFile || '');
+    setCompletions(data.settings.completions || DEFAULT_COMPLETIONS);
+    setDevelopmentPlan(data.developmentPlan || []);
+    setChat(data.chat || []);
+    const openFile = pickOpenFile(data.files, undefined, data.settings.mainFile);
+    setCurrentFile(openFile);
+    setOpenFiles([openFile]);
+    setSplitFile(null);
+    setDeleted(null);
+    setLastReplace(null);
   }
 
-  function handleLanguageChange(e: React.ChangeEvent<HTMLSelectElement>) {
-    setLanguage(e.target.value);
+  function openWorkspace(source: WorkspaceSource, workspace: Workspace) {
+    const store = storeFor(source);
+    if (!store) return;
+
+    loadWorkspaceData(workspace);
+    savedSnapshotRef.current = snapshotOf(workspace);
+    setSavedContents(fileContents(workspace.files));
+    setActiveWorkspace({ source, store, id: workspace.id, name: workspace.name });
+    setSaveStatus('saved');
+    setIsWorkspacePickerOpen(false);
+    localWorkspaceStore.setLastOpened(source, workspace.id)
+      .catch((error) => console.error('Error remembering workspace:', error));
   }
 
+  // Loads the draft into the editor; autosave then writes it to its workspace.
+  function restoreDraft() {
+    if (!recoveryDraft) return;
+    const store = storeFor(recoveryDraft.source);
+
+    loadWorkspaceData(recoveryDraft.data);
+    savedSnapshotRef.current = null;
+    if (store) {
+      setActiveWorkspace({
+        source: recoveryDraft.source,
+        store,
+        id: recoveryDraft.workspaceId,
+        name: recoveryDraft.workspaceName,
+      });
+    }
+    setRecoveryDraft(null);
+  }
+
+  function discardDraft() {
+    setRecoveryDraft(null);
+    localWorkspaceStore.clearDraft()
+      .catch((error) => console.error('Error discarding recovery draft:', error));
+  }
+
+  // Models are kept per path, so those of deleted, renamed and moved files are
+  // dropped here; the TypeScript worker would otherwise keep type-checking them.
+  // Open files changed from outside the editor are brought up to date as an
+  // undoable edit.
+  useEffect(() => {
+    const monaco = monacoRef.current;
+    if (!monaco) return;
+    const contents = fileContents(files);
+    for (const model of monaco.editor.getModels()) {
+      if (model.uri.scheme !== 'file' || model.isAttachedToEditor()) continue;
+      const content = contents[model.uri.path.slice(1)];
+      if (content === undefined) {
+        model.dispose();
+      } else if (content !== model.getValue()) {
+        model.pushEditOperations([], [{ range: model.getFullModelRange(), text: content }], () => null);
+      }
+    }
+  }, [files]);
+
+  // Closing a tab drops its model, and with it the file's undo history.
+  useEffect(() => {
+    const closed = openFilesRef.current.filter(path => !openFiles.includes(path));
+    openFilesRef.current = openFiles;
+    const monaco = monacoRef.current;
+    if (!monaco) return;
+    for (const path of closed) {
+      const model = monaco.editor.getModel(monaco.Uri.file(path));
+      if (model && !model.isAttachedToEditor()) model.dispose();
+    }
+  }, [openFiles]);
+
+  // Runs after the editor has switched to the result's file, so the selection
+  // lands in the right model.
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!reveal || reveal.path !== currentFile || !editor) return;
+    const range = {
+      startLineNumber: reveal.line,
+      startColumn: reveal.column,
+      endLineNumber: reveal.line,
+      endColumn: reveal.column + reveal.length,
+    };
+    editor.setSelection(range);
+    editor.revealRangeInCenter(range);
+    editor.focus();
+    setReveal(null);
+  }, [reveal, currentFile]);
+
+  codeActionRef.current = runCodeAction;
+  lastErrorRef.current = latestError(output);
+
+  const handleEditorDidMount: OnMount = (editor, monaco) => {
+    editorRef.current = editor;
+    monacoRef.current = monaco;
+    const inlineCompletions = registerInlineCompletions(monaco, () => completionsRef.current);
+
+    // AI code actions, from the context menu and, for the open file, the lightbulb.
+    CODE_ACTIONS.forEach(({ kind, title }, index) => editor.addAction({
+      id: `ai.${kind}`,
+      label: title,
+      contextMenuGroupId: 'ai',
+      contextMenuOrder: index + 1,
+      run: () => codeActionRef.current(kind),
+    }));
+    const command = editor.addCommand(0, (_accessor, kind: CodeActionKind) => codeActionRef.current(kind));
+    const codeActions = command ? monaco.languages.registerCodeActionProvider('*', {
+      provideCodeActions(model, range) {
+        const offered = model !== editor.getModel() ? [] : CODE_ACTIONS.filter(({ kind }) =>
+          kind === 'fix' ? lastErrorRef.current !== null : !range.isEmpty()
+        );
+        return {
+          actions: offered.map(({ kind, title }) => ({
+            title,
+            kind: kind === 'fix' ? 'quickfix' : 'refactor',
+            command: { id: command, title, arguments: [kind] },
+          })),
+          dispose() {},
+        };
+      },
+    }) : null;
+
+    editor.onDidDispose(() => {
+      inlineCompletions.dispose();
+      codeActions?.dispose();
+    });
+    editor.onDidChangeCursorSelection(({ selection }) => {
+      const model = editor.getModel();
+      if (!model) return;
+      setSelection({
+        start: model.getOffsetAt(selection.getStartPosition()),
+        end: model.getOffsetAt(selection.getEndPosition()),
+      });
+    });
+  };
+
+  // Edits to the context are for the file they were made on.
+  useEffect(() => {
+    setContextEdits({ added: [], removed: [] });
+  }, [currentFile]);
+
+  useEffect(() => {
+    let cancelled = false;
+    aiService.contextTokens(selectedProvider)
+      .then((tokens) => !cancelled && setContextTokens(tokens))
+      .catch(() => !cancelled && setContextTokens(undefined));
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedProvider]);
+
+  // What a code generation sends along with the prompt, fitted to the model.
+  const codeContext = useMemo(() => {
+    const entries = applyContextEdits(suggestContext(files, currentFile, openFiles), contextEdits, listFilePaths(files));
+    return fitContext(entries, fileContents(files), contextBudget(contextTokens), selection);
+  }, [files, currentFile, openFiles, contextEdits, contextTokens, selection]);
+  const binaryFiles = useMemo(() => binaryPaths(files), [files]);
+
   function handleThemeChange(e: React.ChangeEvent<HTMLSelectElement>) {
     setTheme(e.target.value);
   }
 
   function getFileContent(path: string): string {
-    const parts = path.split('/');
-    let current: FileNode[] = files;
-    let content = '';
-
-    for (const part of parts) {
-      const node = current.find(n => n.name === part);
-      if (!node) break;
-      
-      if (node.type === 'file') {
-        content = node.content || '';
-      } else {
-        current = node.children || [];
-      }
-    }
+    const node = findNode(files, path);
+    return node?.type === 'file' ? node.content || '' : '';
+  }
+
+  function languageOf(path: string): string {
+    return languageOverrides[path] ?? detectLanguage(path, getFileContent(path));
+  }
 
-    return content;
+  function setLanguageOverride(path: string, language: string | undefined) {
+    setLanguageOverrides(overrides => {
+      const next = { ...overrides };
+      if (language) next[path] = language;
+      else delete next[path];
+      return next;
+    });
   }
 
   function updateFileContent(path: string, content: string) {
-    const parts = path.split('/');
-    const updateNode = (nodes: FileNode[]): FileNode[] => {
-      return nodes.map(node => {
-        if (node.name === parts[0]) {
-          if (parts.length === 1) {
-            return { ...node, content };
-          }
-          return {
-            ...node,
-            children: node.children ? updateNode(node.children) : []
-          };
-        }
-        return node;
-      });
-    };
+    setFiles(prev => setFileContent(prev, path, content));
+  }
+
+  // Shows `path` in the main editor, opening a tab for it if there is none.
+  function showFile(path: string) {
+    setCurrentFile(path);
+    setOpenFiles(tabs => tabs.includes(path) ? tabs : [...tabs, path]);
+  }
 
-    setFiles(updateNode(files));
+  function closeTab(path: string) {
+    const index = openFiles.indexOf(path);
+    const remaining = openFiles.filter(tab => tab !== path);
+    setOpenFiles(remaining);
+    if (currentFile === path) setCurrentFile(remaining[Math.min(index, remaining.length - 1)]);
+    if (splitFile === path) setSplitFile(null);
   }
 
-  function handleFileSelect(path: string) {
+  function closeOtherTabs(path: string) {
+    setOpenFiles([path]);
     setCurrentFile(path);
-    const content = getFileContent(path);
-    if (editorRef.current) {
-      editorRef.current.setValue(content);
+    setSplitFile(null);
+  }
+
+  function openToSide(path: string) {
+    setSplitFile(path);
+    setOpenFiles(tabs => tabs.includes(path) ? tabs : [...tabs, path]);
+  }
+
+  // Runs a tree change, returning FileTreeError messages for the tree to show.
+  function changeTree(change: () => FileNode[]): string | null {
+    try {
+      setFiles(change());
+      return null;
+    } catch (error) {
+      if (error instanceof FileTreeError) return error.message;
+      throw error;
     }
   }
 
-  function createFile(path: string, type: 'file' | 'directory') {
-    const parts = path.split('/');
-    const fileName = parts.pop() || '';
-    const dirPath = parts.join('/');
-
-    const createNode = (nodes: FileNode[], depth: number = 0): FileNode[] => {
-      if (depth === parts.length) {
-        return [
-          ...nodes,
-          {
-            name: fileName,
-            type,
-            ...(type === 'file' ? { content: '' } : { children: [] })
-          }
-        ];
-      }
+  function createFile(path: string, type: 'file' | 'directory'): string | null {
+    const node: FileNode = type === 'file'
+      ? { name: baseName(path), type, content: '' }
+      : { name: baseName(path), type, children: [] };
+    const refused = changeTree(() => insertNode(files, parentPath(path), node));
+    if (!refused && type === 'file') showFile(path);
+    return refused;
+  }
 
-      return nodes.map(node => {
-        if (node.name === parts[depth] && node.type === 'directory') {
-          return {
-            ...node,
-            children: createNode(node.children || [], depth + 1)
-          };
-        }
-        return node;
-      });
-    };
+  // Renames and moves. Tabs, the main file and the preview follow along.
+  function moveFile(from: string, to: string): string | null {
+    const refused = changeTree(() => moveNode(files, from, to));
+    if (refused) return refused;
+    setCurrentFile(path => movedPath(path, from, to));
+    setOpenFiles(tabs => tabs.map(path => movedPath(path, from, to)));
+    setSplitFile(path => path && movedPath(path, from, to));
+    setLanguageOverrides(overrides => Object.fromEntries(
+      Object.entries(overrides).map(([path, language]) => [movedPath(path, from, to), language])
+    ));
+    if (mainFile) setMainFile(movedPath(mainFile, from, to));
+    setPreviewPath(path => path && movedPath(path, from, to));
+    return null;
+  }
 
-    setFiles(createNode(files));
-    if (type === 'file') {
-      setCurrentFile(path);
+  function duplicateFile(path: string): string | null {
+    try {
+      const copy = duplicateNode(files, path);
+      setFiles(copy.nodes);
+      if (findNode(copy.nodes, copy.path)?.type === 'file') showFile(copy.path);
+      return null;
+    } catch (error) {
+      if (error instanceof FileTreeError) return error.message;
+      throw error;
     }
   }
 
   function deleteFile(path: string) {
-    const parts = path.split('/');
-    
-    const deleteNode = (nodes: FileNode[]): FileNode[] => {
-      if (parts.length === 1) {
-        return nodes.filter(node => node.name !== parts[0]);
-      }
-      
-      return nodes.map(node => {
-        if (node.name === parts[0] && node.type === 'directory') {
-          return {
-            ...node,
-            children: node.children ? deleteNode(node.children) : []
-          };
-        }
-        return node;
-      });
-    };
+    const node = findNode(files, path);
+    if (!node) return;
+    const remaining = removeNode(files, path);
+    setDeleted({
+      path,
+      node,
+      openFile: isWithin(currentFile, path) ? currentFile : null,
+      mainFile: mainFile && isWithin(mainFile, path) ? mainFile : null,
+      languageOverrides: Object.fromEntries(Object.entries(languageOverrides).filter(([key]) => isWithin(key, path))),
+    });
+    setLanguageOverrides(overrides => Object.fromEntries(
+      Object.entries(overrides).filter(([key]) => !isWithin(key, path))
+    ));
+    setFiles(remaining);
+    const tabs = openFiles.filter(tab => !isWithin(tab, path));
+    if (isWithin(currentFile, path)) {
+      const next = tabs[0] || pickOpenFile(remaining, undefined, mainFile);
+      setCurrentFile(next);
+      setOpenFiles(tabs.length > 0 ? tabs : [next]);
+    } else {
+      setOpenFiles(tabs);
+    }
+    if (splitFile && isWithin(splitFile, path)) setSplitFile(null);
+    if (mainFile && isWithin(mainFile, path)) setMainFile('');
+    if (previewPath && isWithin(previewPath, path)) setPreviewPath(null);
+  }
 
-    setFiles(deleteNode(files));
-    if (currentFile === path) {
-      setCurrentFile('src/index.js');
+  function undoDelete() {
+    if (!deleted) return;
+    const refused = changeTree(() => insertNode(files, parentPath(deleted.path), deleted.node));
+    if (refused) {
+      appendOutputLine({ level: 'error', text: `Could not restore ${deleted.path}: ${refused}` });
+      return;
     }
+    if (deleted.openFile) showFile(deleted.openFile);
+    if (deleted.mainFile) setMainFile(deleted.mainFile);
+    setLanguageOverrides(overrides => ({ ...overrides, ...deleted.languageOverrides }));
+    setDeleted(null);
+  }
+
+  function openSearchMatch(path: string, line: number, column: number, length: number) {
+    showFile(path);
+    setReveal({ path, line, column, length });
+  }
+
+  function replaceAll(changes: ReplaceChange[]) {
+    setFiles(prev => changes.reduce((nodes, change) => setFileContent(nodes, change.path, change.after), prev));
+    setLastReplace(changes);
+  }
+
+  // Files edited since the replace are left alone rather than overwritten.
+  function undoReplace() {
+    if (!lastReplace) return;
+    const contents = fileContents(files);
+    const restorable = lastReplace.filter(change => contents[change.path] === change.after);
+    setFiles(prev => restorable.reduce((nodes, change) => setFileContent(nodes, change.path, change.before), prev));
+    lastReplace
+      .filter(change => !restorable.includes(change))
+      .forEach(change => appendOutputLine({ level: 'warn', text: `Did not undo the replace in ${change.path}, which has changed since.` }));
+    setLastReplace(null);
   }
 
   function handleSave() {
@@ -171,67 +688,329 @@ export default function CodeEditor() {
     }
   }
 
+  // Output is queued and shown once per frame: a program that logs in a tight
+  // loop would otherwise re-render the IDE for every line.
+  function appendOutputLine(line: OutputLine) {
+    pendingOutputRef.current.push(line);
+    if (pendingOutputRef.current.length > 2 * MAX_OUTPUT_LINES) {
+      pendingOutputRef.current = appendOutput([], pendingOutputRef.current);
+    }
+    if (outputFrameRef.current === null) {
+      outputFrameRef.current = requestAnimationFrame(() => {
+        outputFrameRef.current = null;
+        const pending = pendingOutputRef.current;
+        pendingOutputRef.current = [];
+        setOutput(lines => appendOutput(lines, pending));
+      });
+    }
+  }
+
+  function clearOutput() {
+    pendingOutputRef.current = [];
+    setOutput([]);
+  }
+
   async function handleRun() {
-    if (!editorRef.current) return;
-    
+    const entry = mainFile || currentFile;
+    if (!entry) return;
+
+    const language = languageOf(entry);
+    if (language === 'html') {
+      setPreviewPath(entry);
+      return;
+    }
+    const runtime = runtimeFor(language);
+    if (!runtime) {
+      appendOutputLine({ level: 'system', text: `${entry} is ${languageName(language)}, which Run cannot run.` });
+      return;
+    }
+
     setIsRunning(true);
-    setOutput('');
-    
-    const code = editorRef.current.getValue();
-    
-    try {
-      const sandbox = new Function(
-        'console',
-        `
-        const log = [];
-        const customConsole = {
-          log: (...args) => log.push(args.map(arg => 
-            typeof arg === 'object' ? JSON.stringify(arg) : String(arg)
-          ).join(' ')),
-          error: (...args) => log.push('Error: ' + args.join(' ')),
-          warn: (...args) => log.push('Warning: ' + args.join(' '))
-        };
-        
-        try {
-          ${code}
-        } catch (error) {
-          customConsole.error(error.message);
-        }
-        
-        return log.join('\\n');
-        `
-      );
-      
-      const result = sandbox({ log: console.log });
-      setOutput(result);
-    } catch (error) {
-      setOutput(`Error: ${error.message}`);
-    } finally {
-      setIsRunning(false);
+    clearOutput();
+
+    let project = fileContents(files);
+    let sourceMaps: Record<string, string> = {};
+    // TypeScript is compiled here, where Monaco's TypeScript worker lives. Type
+    // errors are reported but do not stop the run.
+    if (runtime === 'javascript' && Object.keys(project).some(isTypeScript)) {
+      try {
+        const build = await compileTypeScript(await loader.init(), project);
+        build.diagnostics.forEach(text => appendOutputLine({ level: 'warn', text }));
+        project = { ...project, ...build.files };
+        sourceMaps = build.sourceMaps;
+      } catch (error) {
+        console.error('Error compiling TypeScript:', error);
+        appendOutputLine({ level: 'error', text: 'Could not compile TypeScript files.' });
+        setIsRunning(false);
+        return;
+      }
+    }
+
+    const run = runCode(project, entry, {
+      runtime,
+      timeoutMs: runTimeoutMs,
+      sourceMaps,
+      onOutput: appendOutputLine,
+      onInput: (prompt) => new Promise(resolve => setPendingInput({ prompt, resolve })),
+    });
+    runRef.current = run;
+    await run.done;
+    runRef.current = null;
+    setPendingInput(null);
+    setIsRunning(false);
+  }
+
+  function submitInput(line: string) {
+    if (!pendingInput) return;
+    appendOutputLine({ level: 'log', text: pendingInput.prompt + line });
+    pendingInput.resolve(line);
+    setPendingInput(null);
+  }
+
+  function togglePreview() {
+    if (previewPath !== null) {
+      setPreviewPath(null);
+      return;
+    }
+    const htmlPaths = listFilePaths(files).filter(path => path.endsWith('.html'));
+    if (htmlPaths.length === 0) {
+      appendOutputLine({ level: 'system', text: 'Add an .html file to the project to preview it.' });
+      return;
     }
+    setPreviewPath(htmlPaths.includes(currentFile) ? currentFile : htmlPaths[0]);
+  }
+
+  function handleStop() {
+    runRef.current?.stop();
   }
 
   function handlePlanGenerated(plan: Step[]) {
     setDevelopmentPlan(plan);
   }
 
+  // Sends the prompt with the selection and the files in the context chips, and
+  // streams the completion into a diff against the current file. Nothing is
+  // written to `files` until the review is accepted.
   async function handleGenerateCode() {
-    if (!codePrompt.trim()) return;
-    
+    const editor = editorRef.current;
+    const model = editor?.getModel();
+    if (!codePrompt.trim() || !editor || !model) return;
+
+    const range = editor.getSelection();
+    const original = model.getValue();
+    const target = range
+      ? { start: model.getOffsetAt(range.getStartPosition()), end: model.getOffsetAt(range.getEndPosition()) }
+      : { start: 0, end: 0 };
+    const prompt = buildCodePrompt(codePrompt, { path: currentFile, content: original, selection: target }, codeContext);
+    // With nothing selected the prompt asks for code to insert at the cursor.
+    const mode = target.start === target.end ? 'cursor' : 'selection';
+    await streamIntoReview(
+      { path: currentFile, original, selection: target, generated: '', mode },
+      (options) => aiService.generateCodeStream(prompt, selectedProvider, options)
+    );
+  }
+
+  // Shows `pending` in the diff review and streams the reply into it. Any code
+  // fence around the reply is dropped once it stops, so it never reaches the file.
+  async function streamIntoReview(
+    pending: PendingReview,
+    stream: (options: { onToken: (token: string) => void; signal: AbortSignal }) => Promise<string>
+  ) {
+    const controller = new AbortController();
+    generationRef.current = controller;
     setIsGeneratingCode(true);
+    setReview(pending);
+
     try {
-      const code = await aiService.generateCode(codePrompt, selectedProvider);
-      if (editorRef.current) {
-        editorRef.current.setValue(code);
-        handleSave();
-      }
+      await stream({
+        signal: controller.signal,
+        onToken: (token) => {
+          setReview(current => current && { ...current, generated: current.generated + token });
+        },
+      });
     } catch (error) {
-      console.error('Error generating code:', error);
+      if (!controller.signal.aborted) {
+        console.error('Error generating code:', error);
+        setReview(null);
+      }
     } finally {
+      setReview(current => current && { ...current, generated: stripCodeFence(current.generated) });
+      generationRef.current = null;
       setIsGeneratingCode(false);
     }
   }
 
+  function handleCancelGeneration() {
+    generationRef.current?.abort();
+  }
+
+  function handleAcceptReview(content: string) {
+    if (review) {
+      try {
+        writeFile(files, review.path, content);
+        // Generated tests may go to a file that does not exist yet.
+        setFiles(prev => writeFile(prev, review.path, content));
+        showFile(review.path);
+      } catch (error) {
+        if (!(error instanceof FileTreeError)) throw error;
+        appendOutputLine({ level: 'error', text: `Could not write ${review.path}: ${error.message}` });
+      }
+    }
+    setReview(null);
+  }
+
+  // Runs an AI code action on the selection in the main editor, or on the
+  // whole open file when nothing is selected.
+  function runCodeAction(kind: CodeActionKind) {
+    const editor = editorRef.current;
+    const model = editor?.getModel();
+    if (!editor || !model) return;
+
+    const content = model.getValue();
+    const range = editor.getSelection();
+    const start = range ? model.getOffsetAt(range.getStartPosition()) : 0;
+    const end = range ? model.getOffsetAt(range.getEndPosition()) : 0;
+    const target: ActionTarget = start === end
+      ? { path: currentFile, content, start: 0, end: content.length }
+      : { path: currentFile, content, start, end };
+
+    if (kind === 'explain') {
+      explainTarget(target);
+      return;
+    }
+    if (review) {
+      appendOutputLine({ level: 'system', text: 'Accept or reject the change under review first.' });
+      return;
+    }
+    if (kind === 'refactor') {
+      setRefactorTarget(target);
+      setActionPanel({ type: 'instructions', label: describeTarget(target) });
+      return;
+    }
+    if (kind === 'fix') {
+      const error = latestError(output);
+      if (!error) {
+        appendOutputLine({ level: 'system', text: 'There is no error to fix. Run the project first.' });
+        return;
+      }
+      streamCodeAction(kind, target, buildActionPrompt(kind, target, { error }));
+      return;
+    }
+    if (kind === 'test') {
+      const testFile = { path: testFilePath(target.path), content: getFileContent(testFilePath(target.path)) };
+      streamCodeAction(kind, target, buildActionPrompt(kind, target, { testFile }), testFile);
+      return;
+    }
+    streamCodeAction(kind, target, buildActionPrompt(kind, target));
+  }
+
+  // Streams the code an action returns into the diff review: over the target,
+  // or over the whole of `file` when the action writes another file.
+  async function streamCodeAction(kind: CodeActionKind, target: ActionTarget, prompt: string, file?: { path: string; content: string }) {
+    const pending = file
+      ? { path: file.path, original: file.content, selection: { start: 0, end: 0 }, generated: '' }
+      : { path: target.path, original: target.content, selection: { start: target.start, end: target.end }, generated: '' };
+    await streamIntoReview(pending, (options) => aiService.codeActionStream(kind, prompt, selectedProvider, options));
+  }
+
+  function submitRefactor(instructions: string) {
+    if (!refactorTarget) return;
+    setRefactorTarget(null);
+    setActionPanel(null);
+    streamCodeAction('refactor', refactorTarget, buildActionPrompt('refactor', refactorTarget, { instructions }));
+  }
+
+  async function explainTarget(target: ActionTarget) {
+    explainRef.current?.abort();
+    const controller = new AbortController();
+    explainRef.current = controller;
+    setRefactorTarget(null);
+    setActionPanel({ type: 'explanation', label: describeTarget(target), text: '', isStreaming: true });
+
+    const updateExplanation = (update: (panel: CodeActionPanelState & { type: 'explanation' }) => CodeActionPanelState) =>
+      setActionPanel(panel => panel?.type === 'explanation' && explainRef.current === controller ? update(panel) : panel);
+
+    try {
+      await aiService.codeActionStream('explain', buildActionPrompt('explain', target), selectedProvider, {
+        signal: controller.signal,
+        onToken: (token) => updateExplanation(panel => ({ ...panel, text: panel.text + token })),
+      });
+    } catch {
+      if (!controller.signal.aborted) {
+        updateExplanation(panel => ({ ...panel, error: 'Failed to explain the code. Please check your API keys and try again.' }));
+      }
+    } finally {
+      updateExplanation(panel => ({ ...panel, isStreaming: false }));
+      if (explainRef.current === controller) explainRef.current = null;
+    }
+  }
+
+  function closeActionPanel() {
+    explainRef.current?.abort();
+    explainRef.current = null;
+    setRefactorTarget(null);
+    setActionPanel(null);
+  }
+
+  function handleApplyStructure(structure: FileStructure[], requirements: string, provider: AIProvider) {
+    const pending = { structure, requirements, provider };
+    const conflicts = findConflicts(files, structure);
+    setPendingStructure(pending);
+    setScaffoldJobs([]);
+
+    if (conflicts.length > 0) {
+      setScaffoldConflicts(conflicts);
+    } else {
+      startScaffold(pending, 'keep');
+    }
+  }
+
+  async function startScaffold(pending: PendingStructure, resolution: ConflictResolution) {
+    const result = mergeStructure(files, pending.structure, resolution);
+    const context = { ...pending, paths: listFilePaths(result.files) };
+    scaffoldRef.current = context;
+    setFiles(result.files);
+    setScaffoldConflicts(null);
+    setScaffoldJobs(result.jobs);
+
+    // One file at a time keeps us well inside provider rate limits.
+    for (const job of result.jobs) {
+      if (job.status !== 'pending') continue;
+      if (scaffoldRef.current !== context) return;
+      await generateScaffoldFile(job.path);
+    }
+  }
+
+  async function generateScaffoldFile(path: string) {
+    const context = scaffoldRef.current;
+    if (!context) return;
+
+    const updateJob = (update: Partial<ScaffoldJob>) => {
+      setScaffoldJobs(jobs => jobs.map(job => job.path === path ? { ...job, ...update } : job));
+    };
+
+    updateJob({ status: 'generating', error: undefined });
+    try {
+      const code = await aiService.generateCode(
+        buildFilePrompt(context.requirements, path, context.paths),
+        context.provider
+      );
+      if (scaffoldRef.current !== context) return;
+      updateFileContent(path, stripCodeFence(code));
+      updateJob({ status: 'done' });
+    } catch (error) {
+      if (scaffoldRef.current !== context) return;
+      updateJob({ status: 'failed', error: (error as Error).message });
+    }
+  }
+
+  function closeScaffold() {
+    scaffoldRef.current = null;
+    setPendingStructure(null);
+    setScaffoldConflicts(null);
+    setScaffoldJobs([]);
+  }
+
   function toggleStepCompletion(index: number) {
     setDevelopmentPlan(plan => 
       plan.map((step, i) => 
@@ -240,44 +1019,160 @@ export default function CodeEditor() {
     );
   }
 
+  function updateStep(index: number, update: Partial<Step>) {
+    setDevelopmentPlan(plan => plan.map((step, i) => i === index ? { ...step, ...update } : step));
+  }
+
+  // Sends the step with the whole project and the completed steps, then writes
+  // every file the model returns. Resolves to false if the step failed.
+  async function runStep(index: number): Promise<boolean> {
+    const step = developmentPlan[index];
+    setRunningStep(index);
+    updateStep(index, { error: undefined });
+
+    try {
+      const changes = await aiService.generatePlanStep(
+        buildStepPrompt(step, developmentPlan, files, contextBudget(contextTokens)),
+        selectedProvider
+      );
+      const paths = changes.map(change => normalizePath(change.path));
+      const apply = (nodes: FileNode[]) => changes.reduce((tree, change, i) => writeFile(tree, paths[i], change.content), nodes);
+      // Throws here, before anything is written, if a path clashes with the tree.
+      apply(files);
+      setFiles(apply);
+      updateStep(index, { completed: true, changedFiles: paths });
+      return true;
+    } catch (error) {
+      updateStep(index, { error: (error as Error).message });
+      return false;
+    } finally {
+      setRunningStep(null);
+    }
+  }
+
+  // Writes a code block from the chat over `path`, creating the file if the
+  // reply names a new one, and shows it.
+  function applyChatCode(path: string, code: string) {
+    const target = normalizePath(path);
+    const exists = listFilePaths(files).includes(target);
+    try {
+      writeFile(files, target, code);
+    } catch (error) {
+      if (!(error instanceof FileTreeError)) throw error;
+      appendOutputLine({ level: 'error', text: `Could not apply the code to ${target}: ${error.message}` });
+      return;
+    }
+    setFiles(prev => writeFile(prev, target, code));
+    showFile(target);
+    appendOutputLine({ level: 'system', text: `${exists ? 'Updated' : 'Created'} ${target} from the chat.` });
+  }
+
+  // Runs the next incomplete step, then pauses so the changes can be reviewed
+  // before continuing. Any failure switches autopilot off.
+  async function handleAutopilot() {
+    const next = developmentPlan.findIndex(step => !step.completed);
+    if (next === -1) return;
+
+    setAutopilot('running');
+    const succeeded = await runStep(next);
+    const more = developmentPlan.some((step, i) => i !== next && !step.completed);
+    setAutopilot(state => state === 'running' && succeeded && more ? 'paused' : 'off');
+  }
+
   function exportProject() {
-    const projectData = {
-      files,
-      settings: {
-        language,
-        theme
+    const url = URL.createObjectURL(exportZip(files));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${activeWorkspace?.name || 'project'}.zip`;
+    a.click();
+    URL.revokeObjectURL(url);
+  }
+
+  // Imports go into a new local workspace, so nothing open is overwritten.
+  async function importProject(name: string, entries: Promise<ImportEntry[]>) {
+    try {
+      const result = await importEntries(await entries);
+      if (result.imported === 0) {
+        appendOutputLine({ level: 'warn', text: `Nothing to import from ${name}.` });
+        return;
       }
-    };
 
-    const blob = new Blob([JSON.stringify(projectData, null, 2)], { type: 'application/json' });
+      const workspace = await localWorkspaceStore.create(name, {
+        files: result.files,
+        settings: { theme },
+        developmentPlan: [],
+      });
+      openWorkspace('local', workspace);
+      appendOutputLine({
+        level: 'system',
+        text: `Imported ${result.imported} files from ${name}` +
+          (result.ignored > 0 ? `, left out ${result.ignored} matched by ignore rules.` : '.'),
+      });
+      result.skipped.forEach(({ path, reason }) => appendOutputLine({ level: 'warn', text: `Skipped ${path}: ${reason}` }));
+    } catch (error) {
+      console.error('Error importing project:', error);
+      appendOutputLine({ level: 'error', text: error instanceof ArchiveError ? `Could not import ${name}: ${error.message}.` : `Could not import ${name}.` });
+    }
+  }
+
+  function exportProjectFile() {
+    const blob = new Blob([serializeProjectFile(workspaceData, currentFile)], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = 'web-ide-project.json';
+    a.download = `${activeWorkspace?.name || 'project'}.json`;
     a.click();
     URL.revokeObjectURL(url);
   }
 
-  async function importProject(event: React.ChangeEvent<HTMLInputElement>) {
-    const file = event.target.files?.[0];
-    if (!file) return;
-
+  async function importProjectFile(file: File) {
+    const name = file.name.replace(/\.json$/, '');
     try {
-      const content = await file.text();
-      const projectData = JSON.parse(content);
-      
-      setFiles(projectData.files);
-      setLanguage(projectData.settings.language);
-      setTheme(projectData.settings.theme);
-      
-      setCurrentFile('src/index.js');
-      
-      event.target.value = '';
+      const { files, settings, developmentPlan, openFile } = parseProjectFile(await file.text());
+      const data = { files, settings, developmentPlan };
+      const workspace = await localWorkspaceStore.create(name, data);
+      openWorkspace('local', workspace);
+      const path = pickOpenFile(data.files, openFile, data.settings.mainFile);
+      setCurrentFile(path);
+      setOpenFiles([path]);
+      appendOutputLine({ level: 'system', text: `Imported ${name}.` });
     } catch (error) {
+      if (error instanceof ProjectFileError) {
+        appendOutputLine({ level: 'error', text: `Could not import ${file.name}:` });
+        error.issues.forEach(issue => appendOutputLine({ level: 'error', text: `  - ${issue}` }));
+        return;
+      }
       console.error('Error importing project:', error);
+      appendOutputLine({ level: 'error', text: `Could not import ${file.name}.` });
     }
   }
 
+  function handleImportFile(event: React.ChangeEvent<HTMLInputElement>) {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    if (file.name.endsWith('.json')) importProjectFile(file);
+    else importProject(file.name.replace(/\.zip$/, ''), readZip(file));
+  }
+
+  function handleImportFolder(event: React.ChangeEvent<HTMLInputElement>) {
+    const { files: picked } = event.target;
+    if (!picked || picked.length === 0) return;
+    const name = picked[0].webkitRelativePath.split('/')[0] || 'Imported folder';
+    importProject(name, Promise.resolve(readFileList(picked)));
+    event.target.value = '';
+  }
+
+  function handleDrop(event: React.DragEvent) {
+    event.preventDefault();
+    if (!event.dataTransfer.types.includes('Files')) return;
+    const [item] = Array.from(event.dataTransfer.items);
+    if (!item) return;
+    const name = item.getAsFile()?.name.replace(/\.zip$/, '') || 'Dropped files';
+    // Entries must be read before the handler returns.
+    importProject(name, readDroppedItems(event.dataTransfer.items));
+  }
+
   return (
     <div className="h-screen bg-gray-900 text-white">
       <div className="border-b border-gray-700 p-4">
@@ -287,12 +1182,34 @@ export default function CodeEditor() {
             <h1 className="text-xl font-bold">JUST BUILT</h1>
           </div>
           <div className="flex items-center space-x-4">
+            <button
+              onClick={() => setIsWorkspacePickerOpen(true)}
+              className="flex items-center space-x-2 px-3 py-1.5 rounded bg-gray-800 hover:bg-gray-700 border border-gray-700"
+            >
+              <FolderOpen className="h-4 w-4" />
+              <span>{activeWorkspace ? activeWorkspace.name : 'Workspaces'}</span>
+              {activeWorkspace && (
+                <span
+                  className={`text-xs ${saveStatus === 'error' ? 'text-red-400' : 'text-gray-400'}`}
+                  title={saveStatus === 'error' ? saveError ?? undefined : undefined}
+                >
+                  {saveStatus === 'pending' || saveStatus === 'saving' ? 'Saving...' : saveStatus === 'error' ? 'Save failed' : 'Saved'}
+                </span>
+              )}
+            </button>
             <input
               type="file"
               id="import-project"
               className="hidden"
-              accept=".json"
-              onChange={importProject}
+              accept=".zip,.json"
+              onChange={handleImportFile}
+            />
+            <input
+              type="file"
+              id="import-folder"
+              className="hidden"
+              ref={(input) => input?.setAttribute('webkitdirectory', '')}
+              onChange={handleImportFolder}
             />
             <button
               onClick={() => document.getElementById('import-project')?.click()}
@@ -301,6 +1218,13 @@ export default function CodeEditor() {
               <Upload className="h-4 w-4" />
               <span>Import</span>
             </button>
+            <button
+              onClick={() => document.getElementById('import-folder')?.click()}
+              className="flex items-center space-x-2 px-3 py-1.5 rounded bg-gray-800 hover:bg-gray-700 border border-gray-700"
+              title="Import a folder"
+            >
+              <FolderUp className="h-4 w-4" />
+            </button>
             <button
               onClick={exportProject}
               className="flex items-center space-x-2 px-3 py-1.5 rounded bg-gray-800 hover:bg-gray-700 border border-gray-700"
@@ -308,18 +1232,13 @@ export default function CodeEditor() {
               <Download className="h-4 w-4" />
               <span>Export</span>
             </button>
-            <select
-              value={language}
-              onChange={handleLanguageChange}
-              className="bg-gray-800 text-white rounded px-3 py-1.5 border border-gray-700"
+            <button
+              onClick={exportProjectFile}
+              className="flex items-center space-x-2 px-3 py-1.5 rounded bg-gray-800 hover:bg-gray-700 border border-gray-700"
+              title="Export a project file with settings and the development plan"
             >
-              <option value="javascript">JavaScript</option>
-              <option value="typescript">TypeScript</option>
-              <option value="python">Python</option>
-              <option value="html">HTML</option>
-              <option value="css">CSS</option>
-              <option value="json">JSON</option>
-            </select>
+              <FileJson className="h-4 w-4" />
+            </button>
             <select
               value={theme}
               onChange={handleThemeChange}
@@ -336,13 +1255,29 @@ export default function CodeEditor() {
               <Save className="h-4 w-4" />
               <span>Save</span>
             </button>
-            <button 
-              onClick={handleRun}
-              disabled={isRunning}
-              className="flex items-center space-x-2 rounded bg-blue-500 px-4 py-2 hover:bg-blue-600 disabled:bg-blue-800 disabled:cursor-not-allowed"
+            {isRunning ? (
+              <button
+                onClick={handleStop}
+                className="flex items-center space-x-2 rounded bg-red-500 px-4 py-2 hover:bg-red-600"
+              >
+                <Square className="h-4 w-4" />
+                <span>Stop</span>
+              </button>
+            ) : (
+              <button
+                onClick={handleRun}
+                className="flex items-center space-x-2 rounded bg-blue-500 px-4 py-2 hover:bg-blue-600"
+              >
+                <Play className="h-4 w-4" />
+                <span>Run</span>
+              </button>
+            )}
+            <button
+              onClick={togglePreview}
+              className={`flex items-center space-x-2 px-3 py-1.5 rounded border border-gray-700 ${previewPath !== null ? 'bg-gray-700' : 'bg-gray-800 hover:bg-gray-700'}`}
             >
-              <Play className="h-4 w-4" />
-              <span>{isRunning ? 'Running...' : 'Run'}</span>
+              <Eye className="h-4 w-4" />
+              <span>Preview</span>
             </button>
             <button 
               onClick={() => setIsSettingsOpen(true)}
@@ -355,19 +1290,58 @@ export default function CodeEditor() {
       </div>
 
       <PanelGroup direction="horizontal">
-        <Panel defaultSize={20} minSize={15}>
-          <div className="h-full p-4">
-            <FileTree
-              files={files}
-              currentFile={currentFile}
-              onFileSelect={handleFileSelect}
-              onFileCreate={createFile}
-              onFileDelete={deleteFile}
-            />
+        <Panel id="files" order={1} defaultSize={20} minSize={15}>
+          <div
+            className="h-full p-4 flex flex-col space-y-2"
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={handleDrop}
+          >
+            <div className="flex space-x-1">
+              <button
+                onClick={() => setSidebar('files')}
+                className={`p-1.5 rounded ${sidebar === 'files' ? 'bg-gray-700 text-white' : 'text-gray-400 hover:bg-gray-800'}`}
+                title="Files"
+              >
+                <Files className="h-4 w-4" />
+              </button>
+              <button
+                onClick={() => setSidebar('search')}
+                className={`p-1.5 rounded ${sidebar === 'search' ? 'bg-gray-700 text-white' : 'text-gray-400 hover:bg-gray-800'}`}
+                title="Search in files"
+              >
+                <Search className="h-4 w-4" />
+              </button>
+            </div>
+            {/* Both stay mounted so switching keeps the search and the open folders. */}
+            <div className={sidebar === 'search' ? 'min-h-0 flex flex-col' : 'hidden'}>
+              <SearchPanel
+                files={files}
+                onOpenMatch={openSearchMatch}
+                onReplaceAll={replaceAll}
+                lastReplace={lastReplace && {
+                  files: lastReplace.length,
+                  matches: lastReplace.reduce((total, change) => total + change.count, 0),
+                }}
+                onUndoReplace={undoReplace}
+              />
+            </div>
+            <div className={sidebar === 'files' ? '' : 'hidden'}>
+              <FileTree
+                files={files}
+                currentFile={currentFile}
+                onFileSelect={showFile}
+                deletedPath={deleted?.path ?? null}
+                onFileCreate={createFile}
+                onFileMove={moveFile}
+                onFileDuplicate={duplicateFile}
+                onFileDelete={deleteFile}
+                onUndoDelete={undoDelete}
+              />
+            </div>
           </div>
         </Panel>
         <PanelResizeHandle className="w-2 bg-gray-700 hover:bg-blue-500 transition-colors" />
-        <Panel defaultSize={40} minSize={30}>
+        <Panel id="editor" order={2} defaultSize={40} minSize={30}>
           <div className="h-full flex flex-col">
             <div className="p-4 bg-gray-800 border-b border-gray-700">
               <div className="flex items-center justify-between mb-4">
@@ -375,15 +1349,11 @@ export default function CodeEditor() {
                   <MessageSquare className="h-5 w-5 text-blue-400" />
                   <h2 className="text-lg font-semibold">Code Generation</h2>
                 </div>
-                <select
+                <ProviderSelect
                   value={selectedProvider}
-                  onChange={(e) => setSelectedProvider(e.target.value as AIProvider)}
+                  onChange={setSelectedProvider}
                   className="bg-gray-900 text-white rounded-md px-3 py-1 border border-gray-700"
-                >
-                  <option value="gemini">Gemini</option>
-                  <option value="mistral">Mistral</option>
-                  <option value="groq">Groq</option>
-                </select>
+                />
               </div>
               <div className="flex space-x-2">
                 <input
@@ -393,86 +1363,232 @@ export default function CodeEditor() {
                   placeholder="Enter prompt for code generation..."
                   className="flex-1 px-3 py-2 bg-gray-900 rounded-lg border border-gray-700 focus:ring-2 focus:ring-blue-500 focus:outline-none"
                 />
-                <button
-                  onClick={handleGenerateCode}
-                  disabled={isGeneratingCode || !codePrompt.trim()}
-                  className="px-4 py-2 bg-blue-500 rounded-lg hover:bg-blue-600 disabled:bg-blue-800 disabled:cursor-not-allowed"
-                >
-                  {isGeneratingCode ? 'Generating...' : 'Generate'}
-                </button>
+                {isGeneratingCode ? (
+                  <button
+                    onClick={handleCancelGeneration}
+                    className="flex items-center space-x-2 px-4 py-2 bg-red-500 rounded-lg hover:bg-red-600"
+                  >
+                    <Square className="h-4 w-4" />
+                    <span>Stop</span>
+                  </button>
+                ) : (
+                  <button
+                    onClick={handleGenerateCode}
+                    disabled={!codePrompt.trim() || review !== null}
+                    className="px-4 py-2 bg-blue-500 rounded-lg hover:bg-blue-600 disabled:bg-blue-800 disabled:cursor-not-allowed"
+                  >
+                    Generate
+                  </button>
+                )}
               </div>
+              <ContextChips
+                context={codeContext}
+                selectedLines={selection.start === selection.end ? null : [
+                  lineOf(getFileContent(currentFile), selection.start),
+                  lineOf(getFileContent(currentFile), selection.end - 1),
+                ]}
+                addablePaths={listFilePaths(files).filter(path =>
+                  !codeContext.files.some(file => file.path === path) && !binaryFiles.has(path)
+                )}
+                edited={contextEdits.added.length > 0 || contextEdits.removed.length > 0}
+                onAdd={(path) => setContextEdits(edits => ({
+                  added: [...edits.added, path],
+                  removed: edits.removed.filter(removed => removed !== path),
+                }))}
+                onRemove={(path) => setContextEdits(edits => ({
+                  added: edits.added.filter(added => added !== path),
+                  removed: [...edits.removed, path],
+                }))}
+                onReset={() => setContextEdits({ added: [], removed: [] })}
+              />
             </div>
             <div className="flex-1 flex flex-col">
-              <Editor
-                height="60%"
-                defaultLanguage={language}
-                language={language}
-                value={getFileContent(currentFile)}
-                theme={theme}
-                onMount={handleEditorDidMount}
-                onChange={(value) => {
-                  if (value) updateFileContent(currentFile, value);
-                }}
-                options={{
-                  minimap: { enabled: true },
-                  fontSize: 14,
-                  lineNumbers: 'on',
-                  roundedSelection: false,
-                  scrollBeyondLastLine: false,
-                  automaticLayout: true,
-                  wordWrap: 'on',
-                  formatOnPaste: true,
-                  formatOnType: true,
-                  suggestOnTriggerCharacters: true,
-                  tabSize: 2,
-                  autoIndent: 'full',
-                  colorDecorators: true,
-                }}
-              />
+              {review && (
+                <GeneratedCodeReview
+                  path={review.path}
+                  language={languageOf(review.path)}
+                  theme={theme}
+                  original={review.original}
+                  selection={review.selection}
+                  generated={review.generated}
+                  initialMode={review.mode}
+                  isStreaming={isGeneratingCode}
+                  onStop={handleCancelGeneration}
+                  onAccept={handleAcceptReview}
+                  onReject={() => setReview(null)}
+                />
+              )}
+              {/* Kept mounted during review so its model and view state survive. */}
+              <div className={review ? 'hidden' : 'h-[60%] flex flex-col'}>
+                <EditorTabs
+                  tabs={openFiles}
+                  activePath={currentFile}
+                  splitPath={splitFile}
+                  dirtyPaths={new Set(openFiles.filter(path => getFileContent(path) !== savedContents[path]))}
+                  onSelect={showFile}
+                  onClose={closeTab}
+                  onCloseOthers={closeOtherTabs}
+                  onOpenToSide={openToSide}
+                />
+                <PanelGroup direction="horizontal" className="flex-1 min-h-0">
+                  <Panel id="main-editor" order={1} minSize={20}>
+                    <Editor
+                      height="100%"
+                      path={currentFile}
+                      language={languageOf(currentFile)}
+                      value={getFileContent(currentFile)}
+                      theme={theme}
+                      keepCurrentModel
+                      onMount={handleEditorDidMount}
+                      onChange={(value) => {
+                        if (value !== undefined) updateFileContent(currentFile, value);
+                      }}
+                      options={editorOptions}
+                    />
+                  </Panel>
+                  {splitFile !== null && (
+                    <>
+                      <PanelResizeHandle className="w-1 bg-gray-700 hover:bg-blue-500 transition-colors" />
+                      <Panel id="split-editor" order={2} minSize={20}>
+                        <div className="h-full flex flex-col">
+                          <div className="flex items-center justify-between px-3 py-1 bg-gray-800 border-b border-gray-700 text-sm text-gray-400">
+                            <span className="truncate">{splitFile}</span>
+                            <button
+                              onClick={() => setSplitFile(null)}
+                              className="p-0.5 rounded hover:bg-gray-700"
+                              title="Close split"
+                            >
+                              <X className="h-3 w-3" />
+                            </button>
+                          </div>
+                          <div className="flex-1 min-h-0">
+                            <Editor
+                              height="100%"
+                              path={splitFile}
+                              language={languageOf(splitFile)}
+                              value={getFileContent(splitFile)}
+                              theme={theme}
+                              keepCurrentModel
+                              onChange={(value) => {
+                                if (value !== undefined) updateFileContent(splitFile, value);
+                              }}
+                              options={editorOptions}
+                            />
+                          </div>
+                        </div>
+                      </Panel>
+                    </>
+                  )}
+                </PanelGroup>
+                <EditorStatusBar
+                  path={currentFile}
+                  detectedLanguage={detectLanguage(currentFile, getFileContent(currentFile))}
+                  languageOverride={languageOverrides[currentFile]}
+                  onLanguageChange={(language) => setLanguageOverride(currentFile, language)}
+                  completions={completions}
+                  onCompletionsChange={setCompletions}
+                />
+              </div>
               <div className="h-[40%] bg-gray-900 p-4 overflow-auto font-mono">
                 <h3 className="text-sm font-semibold mb-2 text-gray-400">Output:</h3>
-                <pre className="whitespace-pre-wrap">{output}</pre>
+                <pre className="whitespace-pre-wrap">
+                  {output.map((line, index) => (
+                    <div key={index} className={outputColors[line.level]}>{line.text}</div>
+                  ))}
+                </pre>
+                {pendingInput && (
+                  <InputPrompt prompt={pendingInput.prompt} onSubmit={submitInput} />
+                )}
               </div>
             </div>
           </div>
         </Panel>
+        {previewPath !== null && (
+          <>
+            <PanelResizeHandle className="w-2 bg-gray-700 hover:bg-blue-500 transition-colors" />
+            <Panel id="preview" order={3} defaultSize={30} minSize={20}>
+              <HtmlPreview
+                files={files}
+                path={previewPath}
+                htmlPaths={listFilePaths(files).filter(path => path.endsWith('.html'))}
+                onPathChange={setPreviewPath}
+                onOutput={appendOutputLine}
+                onClose={() => setPreviewPath(null)}
+              />
+            </Panel>
+          </>
+        )}
         <PanelResizeHandle className="w-2 bg-gray-700 hover:bg-blue-500 transition-colors" />
-        <Panel defaultSize={40} minSize={30}>
+        <Panel id="assistant" order={4} defaultSize={40} minSize={30}>
           <div className="h-full bg-gray-800 p-4 flex flex-col space-y-4">
-            <AIAssistant onPlanGenerated={handlePlanGenerated} />
+            <AIAssistant
+              // Remounted per workspace, which stops a chat reply still streaming.
+              key={activeWorkspace?.id}
+              onPlanGenerated={handlePlanGenerated}
+              onApplyStructure={handleApplyStructure}
+              chat={chat}
+              onChatChange={setChat}
+              files={fileContents(files)}
+              binaryFiles={binaryFiles}
+              currentFile={currentFile}
+              onApplyCode={applyChatCode}
+            />
+
+            {actionPanel && (
+              <CodeActionPanel
+                state={actionPanel}
+                onSubmitInstructions={submitRefactor}
+                onStop={() => explainRef.current?.abort()}
+                onClose={closeActionPanel}
+              />
+            )}
+
+            {pendingStructure && (
+              <ScaffoldPanel
+                conflicts={scaffoldConflicts}
+                jobs={scaffoldJobs}
+                onResolve={(resolution) => startScaffold(pendingStructure, resolution)}
+                onRetry={generateScaffoldFile}
+                onClose={closeScaffold}
+              />
+            )}
             
             {developmentPlan.length > 0 && (
-              <div className="bg-gray-900 rounded-lg p-4 flex-1 overflow-auto">
-                <h3 className="text-lg font-semibold mb-3">Development Plan</h3>
-                <div className="space-y-4">
-                  {developmentPlan.map((step, index) => (
-                    <div key={index} className="bg-gray-800 p-4 rounded-lg">
-                      <div className="flex items-start justify-between">
-                        <div className="flex-1">
-                          <h4 className="font-medium mb-2">{step.description}</h4>
-                          <p className="text-sm text-gray-400">Prompt: {step.prompt}</p>
-                        </div>
-                        <button
-                          onClick={() => toggleStepCompletion(index)}
-                          className={`ml-4 ${step.completed ? 'text-green-400' : 'text-gray-400'}`}
-                        >
-                          {step.completed ? (
-                            <CheckCircle2 className="h-6 w-6" />
-                          ) : (
-                            <XCircle className="h-6 w-6" />
-                          )}
-                        </button>
-                      </div>
-                    </div>
-                  ))}
-                </div>
-              </div>
+              <DevelopmentPlanPanel
+                plan={developmentPlan}
+                runningStep={runningStep}
+                autopilot={autopilot}
+                onToggleStep={toggleStepCompletion}
+                onRunStep={runStep}
+                onStartAutopilot={handleAutopilot}
+                onStopAutopilot={() => setAutopilot('off')}
+              />
             )}
           </div>
         </Panel>
       </PanelGroup>
 
-      <Settings isOpen={isSettingsOpen} onClose={() => setIsSettingsOpen(false)} />
+      <Settings
+        isOpen={isSettingsOpen}
+        onClose={() => setIsSettingsOpen(false)}
+        runTimeoutMs={runTimeoutMs}
+        onRunTimeoutChange={setRunTimeoutMs}
+        mainFile={mainFile}
+        filePaths={listFilePaths(files)}
+        onMainFileChange={setMainFile}
+      />
+      <WorkspacePicker
+        isOpen={isWorkspacePickerOpen}
+        onClose={() => setIsWorkspacePickerOpen(false)}
+        active={activeWorkspace}
+        currentData={workspaceData}
+        onOpen={openWorkspace}
+        onRenamed={(id, name) => setActiveWorkspace(current => current?.id === id ? { ...current, name } : current)}
+        onDeleted={(id) => setActiveWorkspace(current => current?.id === id ? null : current)}
+      />
+      {recoveryDraft && (
+        <RecoveryPrompt draft={recoveryDraft} onRestore={restoreDraft} onDiscard={discardDraft} />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,59 @@
+import { Sparkles } from 'lucide-react';
+import ProviderSelect from './ProviderSelect';
+import type { CompletionSettings } from '../lib/inline-completions';
+import { LANGUAGES, languageName } from '../lib/languages';
+
+interface EditorStatusBarProps {
+  path: string;
+  detectedLanguage: string;
+  // Language chosen for this file in place of the detected one.
+  languageOverride?: string;
+  onLanguageChange: (language: string | undefined) => void;
+  completions: CompletionSettings;
+  onCompletionsChange: (completions: CompletionSettings) => void;
+}
+
+export default function EditorStatusBar({
+  path,
+  detectedLanguage,
+  languageOverride,
+  onLanguageChange,
+  completions,
+  onCompletionsChange
+}: EditorStatusBarProps) {
+  return (
+    <div className="flex items-center justify-between px-3 py-0.5 bg-gray-800 border-t border-gray-700 text-xs text-gray-400">
+      <span className="truncate">{path}</span>
+      <div className="flex items-center space-x-2">
+        <button
+          onClick={() => onCompletionsChange({ ...completions, enabled: !completions.enabled })}
+          className={`flex items-center space-x-1 rounded px-1 hover:bg-gray-700 ${completions.enabled ? 'text-blue-400' : ''}`}
+          title={completions.enabled
+            ? 'AI completions are on: Tab accepts, Ctrl+Right accepts a word'
+            : 'Turn on AI completions while typing'}
+        >
+          <Sparkles className="h-3 w-3" />
+          <span>{completions.enabled ? 'AI on' : 'AI off'}</span>
+        </button>
+        {completions.enabled && (
+          <ProviderSelect
+            value={completions.provider}
+            onChange={(provider) => onCompletionsChange({ ...completions, provider })}
+            className="bg-transparent hover:bg-gray-700 rounded px-1 focus:outline-none"
+          />
+        )}
+        <select
+          value={languageOverride ?? ''}
+          onChange={(e) => onLanguageChange(e.target.value || undefined)}
+          className="bg-transparent hover:bg-gray-700 rounded px-1 focus:outline-none"
+          title="Language of this file"
+        >
+          <option value="">Auto ({languageName(detectedLanguage)})</option>
+          {LANGUAGES.map(language => (
+            <option key={language.id} value={language.id}>{language.name}</option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+import { Columns2, CopyX, X } from 'lucide-react';
+import { baseName } from '../lib/file-tree';
+
+interface EditorTabsProps {
+  tabs: string[];
+  activePath: string;
+  splitPath: string | null;
+  // Paths with changes that have not been saved to the workspace yet.
+  dirtyPaths: Set<string>;
+  onSelect: (path: string) => void;
+  onClose: (path: string) => void;
+  onCloseOthers: (path: string) => void;
+  onOpenToSide: (path: string) => void;
+}
+
+export default function EditorTabs({
+  tabs,
+  activePath,
+  splitPath,
+  dirtyPaths,
+  onSelect,
+  onClose,
+  onCloseOthers,
+  onOpenToSide
+}: EditorTabsProps) {
+  // The last tab stays open so the editor always has a file.
+  const canClose = tabs.length > 1;
+
+  return (
+    <div className="flex items-stretch bg-gray-800 border-b border-gray-700 overflow-x-auto text-sm">
+      {tabs.map(path => {
+        const isActive = path === activePath;
+        const isDirty = dirtyPaths.has(path);
+        return (
+          <div
+            key={path}
+            title={path}
+            onClick={() => onSelect(path)}
+            onAuxClick={(e) => {
+              if (e.button === 1 && canClose) onClose(path);
+            }}
+            className={`group flex items-center space-x-2 pl-3 pr-1 py-1.5 border-r border-gray-700 cursor-pointer whitespace-nowrap ${
+              isActive ? 'bg-gray-900 text-white' : 'text-gray-400 hover:bg-gray-700'
+            }`}
+          >
+            <span className={path === splitPath ? 'italic' : ''}>{baseName(path)}</span>
+            <div className="flex items-center">
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onOpenToSide(path);
+                }}
+                className="p-0.5 rounded hover:bg-gray-600 opacity-0 group-hover:opacity-100"
+                title="Open to the side"
+              >
+                <Columns2 className="h-3 w-3" />
+              </button>
+              {canClose && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onCloseOthers(path);
+                  }}
+                  className="p-0.5 rounded hover:bg-gray-600 opacity-0 group-hover:opacity-100"
+                  title="Close other tabs"
+                >
+                  <CopyX className="h-3 w-3" />
+                </button>
+              )}
+              {/* The dot gives way to the close button on hover, like most editors. */}
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  if (canClose) onClose(path);
+                }}
+                className={`relative p-0.5 rounded hover:bg-gray-600 ${canClose ? '' : 'cursor-default'}`}
+                title={canClose ? 'Close' : undefined}
+              >
+                {isDirty && (
+                  <span className={`absolute inset-0 m-auto h-2 w-2 rounded-full bg-gray-300 ${canClose ? 'group-hover:hidden' : ''}`} />
+                )}
+                <X className={`h-3 w-3 ${isDirty || !canClose ? 'invisible' : 'opacity-0 group-hover:opacity-100'} ${
+                  isDirty && canClose ? 'group-hover:visible' : ''
+                }`} />
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,29 +1,46 @@
 import React from 'react';
-import { File, Folder, ChevronDown, ChevronRight, Plus, Trash2 } from 'lucide-react';
+import { File, Folder, ChevronDown, ChevronRight, FilePlus, FolderPlus, Pencil, Copy, Trash2, Undo2 } from 'lucide-react';
+import { baseName, joinPath, movedPath, parentPath, type FileNode } from '../lib/file-tree';
 
-interface FileNode {
-  name: string;
-  type: 'file' | 'directory';
-  children?: FileNode[];
-  content?: string;
-}
+// Set on drags that start in the tree, to tell them apart from files dropped
+// in from outside the page.
+const DRAG_TYPE = 'application/x-file-tree-path';
+
+type Editing =
+  | { kind: 'create'; dirPath: string; type: 'file' | 'directory' }
+  | { kind: 'rename'; path: string };
 
 interface FileTreeProps {
   files: FileNode[];
   currentFile: string;
+  // The last deleted path, while the delete can still be undone.
+  deletedPath: string | null;
   onFileSelect: (path: string) => void;
-  onFileCreate: (path: string, type: 'file' | 'directory') => void;
+  // These return a message to show when the change was refused, or null.
+  onFileCreate: (path: string, type: 'file' | 'directory') => string | null;
+  onFileMove: (from: string, to: string) => string | null;
+  onFileDuplicate: (path: string) => string | null;
   onFileDelete: (path: string) => void;
+  onUndoDelete: () => void;
 }
 
 export default function FileTree({
   files,
   currentFile,
+  deletedPath,
   onFileSelect,
   onFileCreate,
-  onFileDelete
+  onFileMove,
+  onFileDuplicate,
+  onFileDelete,
+  onUndoDelete
 }: FileTreeProps) {
   const [expandedDirs, setExpandedDirs] = React.useState<Set<string>>(new Set());
+  const [editing, setEditing] = React.useState<Editing | null>(null);
+  const [name, setName] = React.useState('');
+  const [error, setError] = React.useState<string | null>(null);
+  // Folder being dragged over, '' for the root.
+  const [dropTarget, setDropTarget] = React.useState<string | null>(null);
 
   const toggleDir = (path: string) => {
     const newExpanded = new Set(expandedDirs);
@@ -35,22 +52,142 @@ export default function FileTree({
     setExpandedDirs(newExpanded);
   };
 
+  const startCreate = (dirPath: string, type: 'file' | 'directory') => {
+    if (dirPath) setExpandedDirs(new Set(expandedDirs).add(dirPath));
+    setEditing({ kind: 'create', dirPath, type });
+    setName('');
+    setError(null);
+  };
+
+  const startRename = (path: string) => {
+    setEditing({ kind: 'rename', path });
+    setName(baseName(path));
+    setError(null);
+  };
+
+  const cancelEditing = () => {
+    setEditing(null);
+    setError(null);
+  };
+
+  // Keeps folders open when they, or a folder above them, move.
+  const followMove = (from: string, to: string) => {
+    setExpandedDirs(dirs => new Set([...dirs].map(dir => movedPath(dir, from, to))));
+  };
+
+  const move = (from: string, to: string) => {
+    const refused = onFileMove(from, to);
+    setError(refused);
+    if (!refused) followMove(from, to);
+    return refused;
+  };
+
+  const submitName = () => {
+    if (!editing) return;
+    if (editing.kind === 'rename') {
+      if (name !== baseName(editing.path) && move(editing.path, joinPath(parentPath(editing.path), name))) return;
+    } else {
+      const refused = onFileCreate(joinPath(editing.dirPath, name), editing.type);
+      setError(refused);
+      if (refused) return;
+    }
+    setEditing(null);
+  };
+
+  const handleDuplicate = (path: string) => {
+    setError(onFileDuplicate(path));
+  };
+
+  const handleDelete = (path: string, isDirectory: boolean) => {
+    if (!window.confirm(`Delete ${path}${isDirectory ? ' and everything in it' : ''}?`)) return;
+    onFileDelete(path);
+  };
+
+  // Drop handlers that move a dragged entry into `dirPath`.
+  const dropInto = (dirPath: string) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!e.dataTransfer.types.includes(DRAG_TYPE)) return;
+      e.preventDefault();
+      e.stopPropagation();
+      e.dataTransfer.dropEffect = 'move';
+      setDropTarget(dirPath);
+    },
+    onDragLeave: () => setDropTarget(null),
+    onDrop: (e: React.DragEvent) => {
+      if (!e.dataTransfer.types.includes(DRAG_TYPE)) return;
+      e.preventDefault();
+      e.stopPropagation();
+      setDropTarget(null);
+      const from = e.dataTransfer.getData(DRAG_TYPE);
+      if (from && parentPath(from) !== dirPath) move(from, joinPath(dirPath, baseName(from)));
+    },
+  });
+
+  const renderNameInput = (icon: React.ReactNode) => (
+    <div className="px-2 py-1">
+      <div className="flex items-center space-x-1">
+        {icon}
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => {
+            setName(e.target.value);
+            setError(null);
+          }}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') submitName();
+            if (e.key === 'Escape') cancelEditing();
+          }}
+          onBlur={cancelEditing}
+          className="flex-1 min-w-0 bg-gray-900 text-white rounded px-1 border border-gray-600 focus:outline-none focus:border-blue-500"
+          autoFocus
+        />
+      </div>
+      {error && <div className="text-xs text-red-400 mt-1">{error}</div>}
+    </div>
+  );
+
+  const renderCreateInput = (dirPath: string) => {
+    if (editing?.kind !== 'create' || editing.dirPath !== dirPath) return null;
+    return renderNameInput(editing.type === 'directory'
+      ? <Folder className="h-4 w-4 text-blue-400" />
+      : <File className="h-4 w-4 text-gray-400" />
+    );
+  };
+
   const renderNode = (node: FileNode, path: string = '') => {
     const fullPath = path ? `${path}/${node.name}` : node.name;
     const isExpanded = expandedDirs.has(fullPath);
     const isDirectory = node.type === 'directory';
 
+    if (editing?.kind === 'rename' && editing.path === fullPath) {
+      return (
+        <div key={fullPath} className="select-none">
+          {renderNameInput(isDirectory
+            ? <Folder className="h-4 w-4 text-blue-400" />
+            : <File className="h-4 w-4 text-gray-400" />
+          )}
+        </div>
+      );
+    }
+
     return (
       <div key={fullPath} className="select-none">
         <div
-          className={`flex items-center space-x-1 px-2 py-1 hover:bg-gray-700 rounded ${
+          draggable
+          onDragStart={(e) => {
+            e.dataTransfer.setData(DRAG_TYPE, fullPath);
+            e.dataTransfer.effectAllowed = 'move';
+          }}
+          {...dropInto(isDirectory ? fullPath : path)}
+          className={`group flex items-center space-x-1 px-2 py-1 hover:bg-gray-700 rounded ${
             currentFile === fullPath ? 'bg-gray-700' : ''
-          }`}
+          } ${isDirectory && dropTarget === fullPath ? 'ring-1 ring-blue-500' : ''}`}
         >
           {isDirectory ? (
             <button
               onClick={() => toggleDir(fullPath)}
-              className="flex items-center group"
+              className="flex items-center min-w-0"
             >
               {isExpanded ? (
                 <ChevronDown className="h-4 w-4 text-gray-400 group-hover:text-white" />
@@ -58,42 +195,45 @@ export default function FileTree({
                 <ChevronRight className="h-4 w-4 text-gray-400 group-hover:text-white" />
               )}
               <Folder className="h-4 w-4 text-blue-400 ml-1" />
-              <span className="ml-1">{node.name}</span>
+              <span className="ml-1 truncate">{node.name}</span>
             </button>
           ) : (
             <div
-              className="flex items-center cursor-pointer"
+              className="flex items-center cursor-pointer min-w-0"
               onClick={() => onFileSelect(fullPath)}
             >
               <File className="h-4 w-4 text-gray-400" />
-              <span className="ml-1">{node.name}</span>
+              <span className="ml-1 truncate">{node.name}</span>
             </div>
           )}
-          
+
           <div className="ml-auto flex items-center space-x-1 opacity-0 group-hover:opacity-100">
             {isDirectory && (
-              <button
-                onClick={() => {
-                  const fileName = window.prompt('Enter file name:');
-                  if (fileName) onFileCreate(`${fullPath}/${fileName}`, 'file');
-                }}
-                className="p-1 hover:bg-gray-600 rounded"
-              >
-                <Plus className="h-3 w-3" />
-              </button>
+              <>
+                <button onClick={() => startCreate(fullPath, 'file')} className="p-1 hover:bg-gray-600 rounded" title="New file">
+                  <FilePlus className="h-3 w-3" />
+                </button>
+                <button onClick={() => startCreate(fullPath, 'directory')} className="p-1 hover:bg-gray-600 rounded" title="New folder">
+                  <FolderPlus className="h-3 w-3" />
+                </button>
+              </>
             )}
-            <button
-              onClick={() => onFileDelete(fullPath)}
-              className="p-1 hover:bg-gray-600 rounded"
-            >
+            <button onClick={() => startRename(fullPath)} className="p-1 hover:bg-gray-600 rounded" title="Rename">
+              <Pencil className="h-3 w-3" />
+            </button>
+            <button onClick={() => handleDuplicate(fullPath)} className="p-1 hover:bg-gray-600 rounded" title="Duplicate">
+              <Copy className="h-3 w-3" />
+            </button>
+            <button onClick={() => handleDelete(fullPath, isDirectory)} className="p-1 hover:bg-gray-600 rounded" title="Delete">
               <Trash2 className="h-3 w-3 text-red-400" />
             </button>
           </div>
         </div>
-        
-        {isDirectory && isExpanded && node.children && (
+
+        {isDirectory && isExpanded && (
           <div className="ml-4">
-            {node.children.map((child) => renderNode(child, fullPath))}
+            {renderCreateInput(fullPath)}
+            {(node.children || []).map((child) => renderNode(child, fullPath))}
           </div>
         )}
       </div>
@@ -101,8 +241,35 @@ export default function FileTree({
   };
 
   return (
-    <div className="bg-gray-800 p-2 rounded-lg">
+    <div
+      {...dropInto('')}
+      className={`bg-gray-800 p-2 rounded-lg ${dropTarget === '' ? 'ring-1 ring-blue-500' : ''}`}
+    >
+      <div className="flex items-center justify-between px-2 pb-2 text-xs uppercase tracking-wide text-gray-400">
+        <span>Files</span>
+        <div className="flex items-center space-x-1">
+          <button onClick={() => startCreate('', 'file')} className="p-1 hover:bg-gray-700 rounded" title="New file">
+            <FilePlus className="h-3 w-3" />
+          </button>
+          <button onClick={() => startCreate('', 'directory')} className="p-1 hover:bg-gray-700 rounded" title="New folder">
+            <FolderPlus className="h-3 w-3" />
+          </button>
+        </div>
+      </div>
+      {error && !editing && (
+        <div className="text-xs text-red-400 px-2 pb-2">{error}</div>
+      )}
+      {renderCreateInput('')}
       {files.map((node) => renderNode(node))}
+      {deletedPath && (
+        <div className="flex items-center justify-between mt-2 px-2 py-1 text-xs text-gray-400 border-t border-gray-700">
+          <span className="truncate">Deleted {deletedPath}</span>
+          <button onClick={onUndoDelete} className="flex items-center space-x-1 px-1 hover:text-white">
+            <Undo2 className="h-3 w-3" />
+            <span>Undo</span>
+          </button>
+        </div>
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,191 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { DiffEditor, type DiffOnMount } from '@monaco-editor/react';
+import { Check, X, Loader2, Square } from 'lucide-react';
+import { acceptHunk, describeHunk, rejectHunk, type LineChange } from '../lib/diff-hunks';
+
+type MonacoDiffEditor = Parameters<DiffOnMount>[0];
+
+export type ReviewMode = 'file' | 'cursor' | 'selection';
+
+interface GeneratedCodeReviewProps {
+  path: string;
+  language: string;
+  theme: string;
+  // File content when generation started, and the selection at that time as
+  // offsets into it (start === end when nothing was selected).
+  original: string;
+  selection: { start: number; end: number };
+  generated: string;
+  // How the reply is placed to begin with: by default over the selection, or
+  // over the whole file when nothing was selected.
+  initialMode?: ReviewMode;
+  isStreaming: boolean;
+  onStop: () => void;
+  onAccept: (content: string) => void;
+  onReject: () => void;
+}
+
+function compose(original: string, generated: string, mode: ReviewMode, selection: { start: number; end: number }) {
+  switch (mode) {
+    case 'file':
+      return generated;
+    case 'cursor':
+      return original.slice(0, selection.end) + generated + original.slice(selection.end);
+    case 'selection':
+      return original.slice(0, selection.start) + generated + original.slice(selection.end);
+  }
+}
+
+export default function GeneratedCodeReview({
+  path,
+  language,
+  theme,
+  original,
+  selection,
+  generated,
+  initialMode,
+  isStreaming,
+  onStop,
+  onAccept,
+  onReject
+}: GeneratedCodeReviewProps) {
+  const hasSelection = selection.start !== selection.end;
+  const [mode, setMode] = useState<ReviewMode>(initialMode ?? (hasSelection ? 'selection' : 'file'));
+  // Set once a hunk has been accepted or rejected; until then both sides follow
+  // the stream and the chosen mode.
+  const [edits, setEdits] = useState<{ base: string; proposal: string } | null>(null);
+  const [hunks, setHunks] = useState<LineChange[]>([]);
+  const diffEditorRef = useRef<MonacoDiffEditor | null>(null);
+  const disposeRef = useRef<(() => void) | null>(null);
+
+  const composed = useMemo(
+    () => compose(original, generated, mode, selection),
+    [original, generated, mode, selection]
+  );
+  const base = edits?.base ?? original;
+  const proposal = edits?.proposal ?? composed;
+
+  useEffect(() => () => disposeRef.current?.(), []);
+
+  const handleMount: DiffOnMount = (editor) => {
+    diffEditorRef.current = editor;
+    const subscription = editor.onDidUpdateDiff(() => setHunks(editor.getLineChanges() || []));
+    disposeRef.current = () => subscription.dispose();
+  };
+
+  function changeMode(next: ReviewMode) {
+    setMode(next);
+    setEdits(null);
+  }
+
+  function revealHunk(change: LineChange) {
+    diffEditorRef.current?.getModifiedEditor().revealLineInCenter(Math.max(change.modifiedStartLineNumber, 1));
+  }
+
+  return (
+    <div className="flex flex-col h-[60%]">
+      <div className="flex items-center justify-between px-4 py-2 bg-gray-800 border-b border-gray-700 text-sm">
+        <div className="flex items-center space-x-3">
+          <span className="font-semibold">Review changes to <span className="font-mono">{path}</span></span>
+          <select
+            value={mode}
+            onChange={(e) => changeMode(e.target.value as ReviewMode)}
+            className="bg-gray-900 text-white rounded px-2 py-1 border border-gray-700"
+          >
+            <option value="file">Replace file</option>
+            <option value="cursor">Insert at cursor</option>
+            {hasSelection && <option value="selection">Replace selection</option>}
+          </select>
+        </div>
+        <div className="flex items-center space-x-2">
+          {isStreaming ? (
+            <button
+              onClick={onStop}
+              className="flex items-center space-x-1 px-3 py-1 rounded bg-red-500 hover:bg-red-600"
+            >
+              <Square className="h-4 w-4" />
+              <span>Stop</span>
+            </button>
+          ) : (
+            <>
+              {edits && (
+                <button
+                  onClick={() => onAccept(base)}
+                  className="px-3 py-1 rounded bg-gray-700 hover:bg-gray-600"
+                >
+                  Apply accepted hunks
+                </button>
+              )}
+              <button
+                onClick={() => onAccept(proposal)}
+                className="flex items-center space-x-1 px-3 py-1 rounded bg-green-600 hover:bg-green-700"
+              >
+                <Check className="h-4 w-4" />
+                <span>Accept all</span>
+              </button>
+              <button
+                onClick={onReject}
+                className="flex items-center space-x-1 px-3 py-1 rounded bg-gray-700 hover:bg-gray-600"
+              >
+                <X className="h-4 w-4" />
+                <span>Reject</span>
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+      <div className="flex flex-1 min-h-0">
+        <div className="flex-1">
+          <DiffEditor
+            height="100%"
+            language={language}
+            theme={theme}
+            original={base}
+            modified={proposal}
+            onMount={handleMount}
+            options={{
+              readOnly: true,
+              automaticLayout: true,
+              renderSideBySide: true,
+              minimap: { enabled: false },
+            }}
+          />
+        </div>
+        <div className="w-56 overflow-auto bg-gray-900 border-l border-gray-700 p-2 space-y-1 text-xs">
+          {isStreaming && (
+            <div className="flex items-center space-x-1 text-gray-400">
+              <Loader2 className="h-3 w-3 animate-spin" />
+              <span>Generating...</span>
+            </div>
+          )}
+          {!isStreaming && hunks.length === 0 && (
+            <p className="text-gray-500">No differences.</p>
+          )}
+          {!isStreaming && hunks.map((change, index) => (
+            <div key={index} className="flex items-center justify-between bg-gray-800 rounded px-2 py-1">
+              <button onClick={() => revealHunk(change)} className="text-left hover:text-blue-400">
+                {describeHunk(change)}
+              </button>
+              <div className="flex space-x-1">
+                <button
+                  onClick={() => setEdits({ base: acceptHunk(base, proposal, change), proposal })}
+                  className="p-0.5 rounded hover:bg-gray-600"
+                  title="Accept hunk"
+                >
+                  <Check className="h-3 w-3 text-green-400" />
+                </button>
+                <button
+                  onClick={() => setEdits({ base, proposal: rejectHunk(base, proposal, change) })}
+                  className="p-0.5 rounded hover:bg-gray-600"
+                  title="Reject hunk"
+                >
+                  <X className="h-3 w-3 text-red-400" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import { useEffect, useRef, useState } from 'react';
+import { Eye, RotateCw, X } from 'lucide-react';
+import { binaryPaths, fileContents, type FileNode } from '../lib/file-tree';
+import { buildPreview, PREVIEW_MESSAGE_SOURCE, type PreviewBuild, type PreviewMessage } from '../lib/html-preview';
+import type { OutputLine } from '../lib/code-runner';
+
+// Edits are picked up once typing pauses for this long.
+const REBUILD_DEBOUNCE_MS = 400;
+
+interface HtmlPreviewProps {
+  files: FileNode[];
+  path: string;
+  htmlPaths: string[];
+  onPathChange: (path: string) => void;
+  onOutput: (line: OutputLine) => void;
+  onClose: () => void;
+}
+
+export default function HtmlPreview({ files, path, htmlPaths, onPathChange, onOutput, onClose }: HtmlPreviewProps) {
+  const iframeRef = useRef<HTMLIFrameElement | null>(null);
+  const buildRef = useRef<PreviewBuild | null>(null);
+  const reportedMissingRef = useRef('');
+  // Kept in a ref so a new callback from the parent does not rebuild the page.
+  const onOutputRef = useRef(onOutput);
+  const [url, setUrl] = useState<string | null>(null);
+  // Bumped by the reload button to remount the iframe.
+  const [reloads, setReloads] = useState(0);
+
+  useEffect(() => {
+    onOutputRef.current = onOutput;
+  }, [onOutput]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      const build = buildPreview(fileContents(files), path, binaryPaths(files));
+      buildRef.current?.revoke();
+      buildRef.current = build;
+      setUrl(build.url);
+
+      const missing = build.missing.join('\n');
+      if (missing && missing !== reportedMissingRef.current) {
+        build.missing.forEach(reference => onOutputRef.current({ level: 'warn', text: `Preview could not find ${reference}` }));
+      }
+      reportedMissingRef.current = missing;
+    }, REBUILD_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [files, path]);
+
+  useEffect(() => () => buildRef.current?.revoke(), []);
+
+  useEffect(() => {
+    function handleMessage(event: MessageEvent<PreviewMessage>) {
+      if (event.source !== iframeRef.current?.contentWindow || event.data?.source !== PREVIEW_MESSAGE_SOURCE) return;
+      const text = buildRef.current ? buildRef.current.describe(event.data.text) : event.data.text;
+      onOutputRef.current({ level: event.data.level, text });
+    }
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, []);
+
+  return (
+    <div className="h-full flex flex-col bg-gray-800">
+      <div className="flex items-center justify-between px-4 py-2 border-b border-gray-700 text-sm">
+        <div className="flex items-center space-x-2">
+          <Eye className="h-4 w-4 text-blue-400" />
+          <select
+            value={path}
+            onChange={(e) => onPathChange(e.target.value)}
+            className="bg-gray-900 text-white rounded px-2 py-1 border border-gray-700"
+          >
+            {htmlPaths.map(htmlPath => (
+              <option key={htmlPath} value={htmlPath}>{htmlPath}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex items-center space-x-1">
+          <button
+            onClick={() => setReloads(count => count + 1)}
+            className="p-1 rounded hover:bg-gray-700"
+            title="Reload preview"
+          >
+            <RotateCw className="h-4 w-4" />
+          </button>
+          <button
+            onClick={onClose}
+            className="p-1 rounded hover:bg-gray-700"
+            title="Close preview"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+      {/* No allow-same-origin: the page cannot reach the IDE or its storage. */}
+      {url && (
+        <iframe
+          key={`${url}-${reloads}`}
+          ref={iframeRef}
+          src={url}
+          title={`Preview of ${path}`}
+          sandbox="allow-scripts allow-forms allow-modals allow-popups"
+          className="flex-1 w-full bg-white"
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+import { useState } from 'react';
+import { CornerDownLeft } from 'lucide-react';
+
+interface InputPromptProps {
+  prompt: string;
+  onSubmit: (line: string) => void;
+}
+
+// A line of input requested by the running program, shown in the output panel.
+export default function InputPrompt({ prompt, onSubmit }: InputPromptProps) {
+  const [line, setLine] = useState('');
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        onSubmit(line);
+      }}
+      className="flex items-center space-x-2"
+    >
+      <span className="text-gray-200 whitespace-pre">{prompt}</span>
+      <input
+        autoFocus
+        value={line}
+        onChange={(e) => setLine(e.target.value)}
+        className="flex-1 bg-gray-800 text-white rounded px-2 py-0.5 border border-gray-700 focus:outline-none focus:border-blue-500"
+      />
+      <button type="submit" className="p-1 rounded hover:bg-gray-700" title="Send">
+        <CornerDownLeft className="h-4 w-4" />
+      </button>
+    </form>
+  );
+}
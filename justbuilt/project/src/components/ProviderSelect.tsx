@@ -0,0 +1,78 @@
+import { useEffect, useState } from 'react';
+import { aiService, type AIProvider, type ProviderInfo, type ProviderStatus } from '../lib/ai-providers';
+
+interface ProviderSelectProps {
+  value: AIProvider;
+  onChange: (provider: AIProvider) => void;
+  className?: string;
+}
+
+function unavailableLabel(status: ProviderStatus | undefined) {
+  if (!status || status.reachable) return '';
+  return status.configured ? ' (unreachable)' : ' (not configured)';
+}
+
+export default function ProviderSelect({ value, onChange, className }: ProviderSelectProps) {
+  const [providers, setProviders] = useState<ProviderInfo[]>([]);
+  const [statuses, setStatuses] = useState<ProviderStatus[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    aiService.listProviders()
+      .then((list) => {
+        if (!cancelled) setProviders(list);
+      })
+      .catch(() => {
+        // Already logged by the service; the select keeps showing `value`.
+      });
+    aiService.providerStatus()
+      .then((list) => {
+        if (!cancelled) setStatuses(list);
+      })
+      .catch(() => {
+        // Already logged; without statuses every provider stays selectable.
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const statusOf = (id: AIProvider) => statuses.find((status) => status.id === id);
+  // Assumed usable until the statuses load.
+  const isAvailable = (id: AIProvider) => statusOf(id)?.reachable ?? true;
+
+  // Fall back to the first usable provider if the selected one is not
+  // registered on this deployment, or is not configured or answering.
+  useEffect(() => {
+    if (providers.length === 0) return;
+    const usable = providers.filter((provider) =>
+      statuses.find((status) => status.id === provider.id)?.reachable ?? true
+    );
+    if (usable.some((provider) => provider.id === value)) return;
+    if (usable.length > 0) {
+      onChange(usable[0].id);
+    } else if (!providers.some((provider) => provider.id === value)) {
+      onChange(providers[0].id);
+    }
+  }, [providers, statuses, value, onChange]);
+
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className={className}
+    >
+      {providers.length === 0 && <option value={value}>{value}</option>}
+      {providers.map((provider) => (
+        <option
+          key={provider.id}
+          value={provider.id}
+          disabled={!isAvailable(provider.id)}
+          title={statusOf(provider.id)?.detail}
+        >
+          {provider.name}{unavailableLabel(statusOf(provider.id))}
+        </option>
+      ))}
+    </select>
+  );
+}
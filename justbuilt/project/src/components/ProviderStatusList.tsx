@@ -0,0 +1,70 @@
+import { useEffect, useState } from 'react';
+import { CheckCircle2, CircleSlash, Loader2, RefreshCw, XCircle } from 'lucide-react';
+import { aiService, type ProviderStatus } from '../lib/ai-providers';
+
+// The environment variable each built-in provider reads on the server.
+const PROVIDER_VARIABLES: Record<string, string> = {
+  gemini: 'GEMINI_API_KEY',
+  mistral: 'MISTRAL_API_KEY',
+  groq: 'GROQ_API_KEY',
+};
+
+function StatusIcon({ status }: { status: ProviderStatus }) {
+  if (status.reachable) return <CheckCircle2 className="h-4 w-4 text-green-400" />;
+  if (!status.configured) return <CircleSlash className="h-4 w-4 text-gray-500" />;
+  return <XCircle className="h-4 w-4 text-red-400" />;
+}
+
+export default function ProviderStatusList() {
+  const [statuses, setStatuses] = useState<ProviderStatus[] | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const check = (refresh: boolean) => {
+    setIsChecking(true);
+    setError(null);
+    aiService.providerStatus(refresh)
+      .then(setStatuses)
+      .catch(() => setError('Could not check the providers.'))
+      .finally(() => setIsChecking(false));
+  };
+
+  useEffect(() => {
+    check(false);
+  }, []);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-gray-300">
+        <span>AI providers</span>
+        <button
+          onClick={() => check(true)}
+          disabled={isChecking}
+          className="flex items-center space-x-1 text-sm text-gray-400 hover:text-white disabled:opacity-50"
+          title="Probe every provider again"
+        >
+          <RefreshCw className={`h-3 w-3 ${isChecking ? 'animate-spin' : ''}`} />
+          <span>Check again</span>
+        </button>
+      </div>
+      {error && <div className="text-sm text-red-400 bg-red-900/20 p-2 rounded">{error}</div>}
+      {!statuses && !error && <Loader2 className="h-4 w-4 animate-spin text-gray-400" />}
+      {statuses && (
+        <ul className="space-y-1 text-sm">
+          {statuses.map(status => (
+            <li key={status.id} className="flex items-center space-x-2">
+              <StatusIcon status={status} />
+              <span className="text-gray-200">{status.name}</span>
+              <span className="text-gray-500 truncate">
+                {status.reachable ? 'Ready' : status.detail}
+                {!status.configured && PROVIDER_VARIABLES[status.id] && (
+                  <>: set <code className="bg-gray-700 px-1 rounded">{PROVIDER_VARIABLES[status.id]}</code></>
+                )}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+import { LifeBuoy } from 'lucide-react';
+import type { RecoveryDraft } from '../lib/indexeddb-workspace-store';
+
+interface RecoveryPromptProps {
+  draft: RecoveryDraft;
+  onRestore: () => void;
+  onDiscard: () => void;
+}
+
+export default function RecoveryPrompt({ draft, onRestore, onDiscard }: RecoveryPromptProps) {
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-gray-800 rounded-lg p-6 w-full max-w-md">
+        <h2 className="text-xl font-semibold flex items-center mb-4">
+          <LifeBuoy className="h-5 w-5 mr-2 text-yellow-400" />
+          Unsaved changes found
+        </h2>
+        <p className="text-gray-300">
+          The last session ended before changes to <span className="font-semibold">{draft.workspaceName}</span>{' '}
+          ({draft.source === 'cloud' ? 'cloud' : 'local'} workspace) were saved.
+        </p>
+        <p className="text-sm text-gray-500 mt-2">
+          Last edited {new Date(draft.updatedAt).toLocaleString()}
+        </p>
+        <div className="mt-6 flex justify-end space-x-2">
+          <button
+            onClick={onDiscard}
+            className="px-4 py-2 rounded bg-gray-700 hover:bg-gray-600"
+          >
+            Discard
+          </button>
+          <button
+            onClick={onRestore}
+            className="px-4 py-2 rounded bg-blue-500 hover:bg-blue-600"
+          >
+            Restore
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
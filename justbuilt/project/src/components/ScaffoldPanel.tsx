@@ -0,0 +1,87 @@
+import { CheckCircle2, XCircle, Loader2, Circle, MinusCircle, RotateCcw, X } from 'lucide-react';
+import type { ConflictResolution, ScaffoldJob, ScaffoldStatus, StructureConflict } from '../lib/scaffold';
+
+interface ScaffoldPanelProps {
+  conflicts: StructureConflict[] | null;
+  jobs: ScaffoldJob[];
+  onResolve: (resolution: ConflictResolution) => void;
+  onRetry: (path: string) => void;
+  onClose: () => void;
+}
+
+const statusIcons: Record<ScaffoldStatus, JSX.Element> = {
+  pending: <Circle className="h-4 w-4 text-gray-500" />,
+  generating: <Loader2 className="h-4 w-4 text-blue-400 animate-spin" />,
+  done: <CheckCircle2 className="h-4 w-4 text-green-400" />,
+  failed: <XCircle className="h-4 w-4 text-red-400" />,
+  skipped: <MinusCircle className="h-4 w-4 text-gray-500" />,
+};
+
+export default function ScaffoldPanel({ conflicts, jobs, onResolve, onRetry, onClose }: ScaffoldPanelProps) {
+  const finished = jobs.filter(job => job.status !== 'pending' && job.status !== 'generating').length;
+
+  return (
+    <div className="bg-gray-900 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-semibold">Apply Structure</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white">
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+
+      {conflicts ? (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-300">
+            These paths already exist in the project:
+          </p>
+          <ul className="text-sm text-gray-400 space-y-1">
+            {conflicts.map(conflict => (
+              <li key={conflict.path}>
+                <code className="bg-gray-800 px-1 rounded">{conflict.path}</code>
+                {conflict.reason === 'type' && ' (file/directory mismatch, will be left alone)'}
+              </li>
+            ))}
+          </ul>
+          <div className="flex space-x-2">
+            <button
+              onClick={() => onResolve('keep')}
+              className="px-3 py-1.5 rounded bg-gray-700 hover:bg-gray-600 text-sm"
+            >
+              Keep existing
+            </button>
+            <button
+              onClick={() => onResolve('overwrite')}
+              className="px-3 py-1.5 rounded bg-red-500 hover:bg-red-600 text-sm"
+            >
+              Regenerate existing
+            </button>
+          </div>
+        </div>
+      ) : (
+        <>
+          <p className="text-sm text-gray-400 mb-2">
+            {finished} of {jobs.length} files processed
+          </p>
+          <ul className="space-y-1">
+            {jobs.map(job => (
+              <li key={job.path} className="flex items-center space-x-2 text-sm">
+                {statusIcons[job.status]}
+                <span className="font-mono">{job.path}</span>
+                {job.error && <span className="text-red-400 truncate">{job.error}</span>}
+                {job.status === 'failed' && (
+                  <button
+                    onClick={() => onRetry(job.path)}
+                    className="ml-auto flex items-center space-x-1 px-2 py-0.5 rounded bg-gray-700 hover:bg-gray-600"
+                  >
+                    <RotateCcw className="h-3 w-3" />
+                    <span>Retry</span>
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,227 @@
+import { useEffect, useState, type ReactNode } from 'react';
+import { CaseSensitive, ChevronDown, ChevronRight, File, Regex, ReplaceAll, Undo2, WholeWord } from 'lucide-react';
+import type { FileNode } from '../lib/file-tree';
+import {
+  planReplace,
+  searchFiles,
+  SearchQueryError,
+  type ReplaceChange,
+  type SearchQuery,
+  type SearchResult,
+} from '../lib/project-search';
+
+// Results are refreshed once typing pauses for this long.
+const SEARCH_DEBOUNCE_MS = 250;
+
+interface SearchPanelProps {
+  files: FileNode[];
+  onOpenMatch: (path: string, line: number, column: number, length: number) => void;
+  onReplaceAll: (changes: ReplaceChange[]) => void;
+  // Set while the last replace-all can still be undone.
+  lastReplace: { files: number; matches: number } | null;
+  onUndoReplace: () => void;
+}
+
+export default function SearchPanel({ files, onOpenMatch, onReplaceAll, lastReplace, onUndoReplace }: SearchPanelProps) {
+  const [query, setQuery] = useState<SearchQuery>({
+    text: '',
+    caseSensitive: false,
+    wholeWord: false,
+    regex: false,
+    include: '',
+    exclude: '',
+  });
+  const [showReplace, setShowReplace] = useState(false);
+  const [replacement, setReplacement] = useState('');
+  const [result, setResult] = useState<SearchResult>({ files: [], truncated: false });
+  const [error, setError] = useState<string | null>(null);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  // The replace-all waiting for confirmation.
+  const [pending, setPending] = useState<ReplaceChange[] | null>(null);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      try {
+        setResult(searchFiles(files, query, showReplace ? replacement : undefined));
+        setError(null);
+      } catch (err) {
+        if (!(err instanceof SearchQueryError)) throw err;
+        setResult({ files: [], truncated: false });
+        setError(err.message);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [files, query, showReplace, replacement]);
+
+  // Anything that changes what would be replaced calls for a new confirmation.
+  useEffect(() => {
+    setPending(null);
+  }, [files, query, replacement]);
+
+  const update = (change: Partial<SearchQuery>) => setQuery(current => ({ ...current, ...change }));
+
+  const toggleCollapsed = (path: string) => {
+    const next = new Set(collapsed);
+    if (next.has(path)) next.delete(path);
+    else next.add(path);
+    setCollapsed(next);
+  };
+
+  const matchCount = result.files.reduce((total, file) => total + file.matches.length, 0);
+
+  const toggleButton = (active: boolean, onClick: () => void, title: string, icon: ReactNode) => (
+    <button
+      onClick={onClick}
+      className={`p-1 rounded ${active ? 'bg-blue-600 text-white' : 'text-gray-400 hover:bg-gray-700'}`}
+      title={title}
+    >
+      {icon}
+    </button>
+  );
+
+  return (
+    <div className="bg-gray-800 p-2 rounded-lg text-sm flex flex-col min-h-0">
+      <div className="flex items-start space-x-1">
+        <button
+          onClick={() => setShowReplace(!showReplace)}
+          className="p-1 mt-0.5 rounded text-gray-400 hover:bg-gray-700"
+          title={showReplace ? 'Hide replace' : 'Show replace'}
+        >
+          {showReplace ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+        </button>
+        <div className="flex-1 min-w-0 space-y-1">
+          <div className="flex items-center bg-gray-900 rounded border border-gray-700 focus-within:border-blue-500">
+            <input
+              type="text"
+              value={query.text}
+              onChange={(e) => update({ text: e.target.value })}
+              placeholder="Search"
+              className="flex-1 min-w-0 bg-transparent px-2 py-1 focus:outline-none"
+            />
+            {toggleButton(query.caseSensitive, () => update({ caseSensitive: !query.caseSensitive }), 'Match case', <CaseSensitive className="h-4 w-4" />)}
+            {toggleButton(query.wholeWord, () => update({ wholeWord: !query.wholeWord }), 'Match whole word', <WholeWord className="h-4 w-4" />)}
+            {toggleButton(query.regex, () => update({ regex: !query.regex }), 'Use regular expression', <Regex className="h-4 w-4" />)}
+          </div>
+          {showReplace && (
+            <div className="flex items-center space-x-1">
+              <input
+                type="text"
+                value={replacement}
+                onChange={(e) => setReplacement(e.target.value)}
+                placeholder={query.regex ? 'Replace ($1 for groups)' : 'Replace'}
+                className="flex-1 min-w-0 bg-gray-900 rounded border border-gray-700 px-2 py-1 focus:outline-none focus:border-blue-500"
+              />
+              <button
+                onClick={() => setPending(planReplace(files, query, replacement))}
+                disabled={matchCount === 0}
+                className="p-1 rounded text-gray-400 hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Replace all"
+              >
+                <ReplaceAll className="h-4 w-4" />
+              </button>
+            </div>
+          )}
+          <input
+            type="text"
+            value={query.include}
+            onChange={(e) => update({ include: e.target.value })}
+            placeholder="Files to include, e.g. src/, *.ts"
+            className="w-full bg-gray-900 rounded border border-gray-700 px-2 py-1 text-xs focus:outline-none focus:border-blue-500"
+          />
+          <input
+            type="text"
+            value={query.exclude}
+            onChange={(e) => update({ exclude: e.target.value })}
+            placeholder="Files to exclude"
+            className="w-full bg-gray-900 rounded border border-gray-700 px-2 py-1 text-xs focus:outline-none focus:border-blue-500"
+          />
+        </div>
+      </div>
+
+      {error && <div className="text-xs text-red-400 mt-2 px-1">{error}</div>}
+
+      {pending && (
+        <div className="mt-2 p-2 rounded bg-gray-900 border border-gray-700 text-xs space-y-2">
+          <div>
+            Replace {pending.reduce((total, change) => total + change.count, 0)} matches
+            in {pending.length} {pending.length === 1 ? 'file' : 'files'} with "{replacement}"?
+            The changes are shown in the results below.
+          </div>
+          <div className="flex justify-end space-x-2">
+            <button onClick={() => setPending(null)} className="px-2 py-1 rounded bg-gray-700 hover:bg-gray-600">
+              Cancel
+            </button>
+            <button
+              onClick={() => {
+                onReplaceAll(pending);
+                setPending(null);
+              }}
+              className="px-2 py-1 rounded bg-blue-500 hover:bg-blue-600"
+            >
+              Replace
+            </button>
+          </div>
+        </div>
+      )}
+
+      {lastReplace && (
+        <div className="flex items-center justify-between mt-2 px-1 text-xs text-gray-400">
+          <span>Replaced {lastReplace.matches} matches in {lastReplace.files} files.</span>
+          <button onClick={onUndoReplace} className="flex items-center space-x-1 px-1 hover:text-white">
+            <Undo2 className="h-3 w-3" />
+            <span>Undo</span>
+          </button>
+        </div>
+      )}
+
+      {query.text && !error && (
+        <div className="text-xs text-gray-500 mt-2 px-1">
+          {matchCount === 0
+            ? 'No results.'
+            : `${matchCount} results in ${result.files.length} files${result.truncated ? ' (showing the first ones only)' : ''}.`}
+        </div>
+      )}
+
+      <div className="mt-1 overflow-auto">
+        {result.files.map(file => (
+          <div key={file.path}>
+            <button
+              onClick={() => toggleCollapsed(file.path)}
+              className="flex items-center w-full px-1 py-0.5 rounded hover:bg-gray-700 text-left"
+              title={file.path}
+            >
+              {collapsed.has(file.path)
+                ? <ChevronRight className="h-3 w-3 text-gray-400 shrink-0" />
+                : <ChevronDown className="h-3 w-3 text-gray-400 shrink-0" />}
+              <File className="h-3 w-3 text-gray-400 ml-1 shrink-0" />
+              <span className="ml-1 truncate">{file.path}</span>
+              <span className="ml-auto pl-2 text-xs text-gray-500">{file.matches.length}</span>
+            </button>
+            {!collapsed.has(file.path) && file.matches.map((match, index) => {
+              const start = match.column - 1 - match.previewOffset;
+              return (
+                <button
+                  key={index}
+                  onClick={() => onOpenMatch(file.path, match.line, match.column, match.length)}
+                  className="block w-full pl-8 pr-1 py-0.5 rounded hover:bg-gray-700 text-left text-xs font-mono truncate text-gray-300"
+                  title={`Line ${match.line}`}
+                >
+                  <span className="text-gray-500 mr-2">{match.line}</span>
+                  {match.previewOffset > 0 && '…'}
+                  {match.preview.slice(0, start).trimStart()}
+                  <span className={match.replacement === undefined ? 'bg-yellow-600/50 text-white' : 'bg-red-700/50 line-through'}>
+                    {match.preview.slice(start, start + match.length)}
+                  </span>
+                  {match.replacement !== undefined && (
+                    <span className="bg-green-700/50 text-white">{match.replacement}</span>
+                  )}
+                  {match.preview.slice(start + match.length)}
+                </button>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
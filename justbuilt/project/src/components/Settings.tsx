@@ -1,12 +1,25 @@
-import React from 'react';
 import { Settings as SettingsIcon, X } from 'lucide-react';
+import ProviderStatusList from './ProviderStatusList';
 
 interface SettingsProps {
   isOpen: boolean;
   onClose: () => void;
+  runTimeoutMs: number;
+  onRunTimeoutChange: (timeoutMs: number) => void;
+  mainFile: string;
+  filePaths: string[];
+  onMainFileChange: (path: string) => void;
 }
 
-export default function Settings({ isOpen, onClose }: SettingsProps) {
+export default function Settings({
+  isOpen,
+  onClose,
+  runTimeoutMs,
+  onRunTimeoutChange,
+  mainFile,
+  filePaths,
+  onMainFileChange
+}: SettingsProps) {
   if (!isOpen) return null;
 
   const handleDocsNavigation = (url: string) => {
@@ -30,20 +43,38 @@ export default function Settings({ isOpen, onClose }: SettingsProps) {
         </div>
 
         <div className="space-y-4">
-          <p className="text-gray-300">
-            API keys are now managed via Netlify environment variables for improved security.
-          </p>
-          <p className="text-gray-300">
-            Please ensure the following environment variables are set in your Netlify project settings:
-          </p>
-          <ul className="list-disc list-inside text-gray-400 space-y-1">
-            <li><code className="bg-gray-700 px-1 rounded">VITE_GEMINI_API_KEY</code> (for Gemini)</li>
-            <li><code className="bg-gray-700 px-1 rounded">VITE_MISTRAL_API_KEY</code> (for Mistral)</li>
-            <li><code className="bg-gray-700 px-1 rounded">VITE_GROQ_API_KEY</code> (for Groq)</li>
-          </ul>
-           <p className="text-sm text-gray-500">
-            After setting these variables in Netlify, you may need to redeploy your site for the changes to take effect.
+          <ProviderStatusList />
+          <p className="text-sm text-gray-500">
+            API keys are set as environment variables of the Netlify site and only read by its functions.
+            Redeploy after changing them.
           </p>
+          <label className="flex items-center justify-between text-gray-300 pt-2 border-t border-gray-700">
+            <span>Run timeout (seconds)</span>
+            <input
+              type="number"
+              min={1}
+              max={300}
+              value={runTimeoutMs / 1000}
+              onChange={(e) => {
+                const seconds = Number(e.target.value);
+                if (seconds >= 1 && seconds <= 300) onRunTimeoutChange(seconds * 1000);
+              }}
+              className="w-20 bg-gray-900 text-white rounded px-2 py-1 border border-gray-700"
+            />
+          </label>
+          <label className="flex items-center justify-between text-gray-300">
+            <span>Run starts from</span>
+            <select
+              value={mainFile}
+              onChange={(e) => onMainFileChange(e.target.value)}
+              className="w-48 bg-gray-900 text-white rounded px-2 py-1 border border-gray-700"
+            >
+              <option value="">Current file</option>
+              {filePaths.map(path => (
+                <option key={path} value={path}>{path}</option>
+              ))}
+            </select>
+          </label>
         </div>
 
         <div className="mt-6 flex justify-between items-center">
@@ -0,0 +1,116 @@
+import { useCallback, useEffect, useState } from 'react';
+import { FolderOpen, Pencil, Plus, Trash2, Loader2 } from 'lucide-react';
+import type { Workspace, WorkspaceData, WorkspaceStore, WorkspaceSummary } from '../lib/workspace-store';
+
+interface WorkspaceListProps {
+  store: WorkspaceStore;
+  activeId: string | null;
+  currentData: WorkspaceData;
+  onOpen: (workspace: Workspace) => void;
+  onRenamed: (id: string, name: string) => void;
+  onDeleted: (id: string) => void;
+}
+
+export default function WorkspaceList({
+  store,
+  activeId,
+  currentData,
+  onOpen,
+  onRenamed,
+  onDeleted
+}: WorkspaceListProps) {
+  const [workspaces, setWorkspaces] = useState<WorkspaceSummary[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setWorkspaces(await store.list());
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }, [store]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Each action reports failures inline and reloads the list afterwards.
+  async function run(action: () => Promise<void>) {
+    try {
+      await action();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+    await refresh();
+  }
+
+  const handleCreate = () => run(async () => {
+    const name = window.prompt('Workspace name:', 'Untitled project');
+    if (!name?.trim()) return;
+    onOpen(await store.create(name.trim(), currentData));
+  });
+
+  const handleOpen = (id: string) => run(async () => {
+    const workspace = await store.get(id);
+    if (!workspace) throw new Error('That workspace no longer exists');
+    onOpen(workspace);
+  });
+
+  const handleRename = (workspace: WorkspaceSummary) => run(async () => {
+    const name = window.prompt('Rename workspace:', workspace.name);
+    if (!name?.trim() || name.trim() === workspace.name) return;
+    await store.rename(workspace.id, name.trim());
+    onRenamed(workspace.id, name.trim());
+  });
+
+  const handleDelete = (workspace: WorkspaceSummary) => run(async () => {
+    if (!window.confirm(`Delete "${workspace.name}"? This cannot be undone.`)) return;
+    await store.remove(workspace.id);
+    onDeleted(workspace.id);
+  });
+
+  return (
+    <div className="space-y-3">
+      {error && (
+        <div className="text-red-400 text-sm bg-red-900/20 p-3 rounded-lg">{error}</div>
+      )}
+      {workspaces === null ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+        </div>
+      ) : (
+        <ul className="space-y-1 max-h-64 overflow-auto">
+          {workspaces.length === 0 && (
+            <li className="text-sm text-gray-500">No workspaces yet.</li>
+          )}
+          {workspaces.map(workspace => (
+            <li
+              key={workspace.id}
+              className={`flex items-center px-2 py-1.5 rounded hover:bg-gray-700 ${workspace.id === activeId ? 'bg-gray-700' : ''}`}
+            >
+              <button onClick={() => handleOpen(workspace.id)} className="flex items-center space-x-2 flex-1 text-left">
+                <FolderOpen className="h-4 w-4 text-blue-400" />
+                <span>{workspace.name}</span>
+                <span className="text-xs text-gray-500">{new Date(workspace.updatedAt).toLocaleString()}</span>
+              </button>
+              <button onClick={() => handleRename(workspace)} className="p-1 hover:bg-gray-600 rounded" title="Rename">
+                <Pencil className="h-3 w-3" />
+              </button>
+              <button onClick={() => handleDelete(workspace)} className="p-1 hover:bg-gray-600 rounded" title="Delete">
+                <Trash2 className="h-3 w-3 text-red-400" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <button
+        onClick={handleCreate}
+        className="flex items-center space-x-2 px-3 py-1.5 rounded bg-gray-700 hover:bg-gray-600 text-sm"
+      >
+        <Plus className="h-4 w-4" />
+        <span>Save current project as new workspace</span>
+      </button>
+    </div>
+  );
+}
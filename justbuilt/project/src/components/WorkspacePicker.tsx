@@ -0,0 +1,124 @@
+import { useEffect, useState } from 'react';
+import type { Session } from '@supabase/supabase-js';
+import { FolderOpen, HardDrive, Cloud, LogOut, X } from 'lucide-react';
+import AuthForm from './AuthForm';
+import WorkspaceList from './WorkspaceList';
+import { localWorkspaceStore, type WorkspaceSource } from '../lib/indexeddb-workspace-store';
+import { supabase } from '../lib/supabase';
+import { cloudWorkspaceStore } from '../lib/supabase-workspace-store';
+import type { Workspace, WorkspaceData, WorkspaceStore } from '../lib/workspace-store';
+
+export interface ActiveWorkspace {
+  source: WorkspaceSource;
+  store: WorkspaceStore;
+  id: string;
+  name: string;
+}
+
+interface WorkspacePickerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  active: ActiveWorkspace | null;
+  currentData: WorkspaceData;
+  onOpen: (source: WorkspaceSource, workspace: Workspace) => void;
+  onRenamed: (id: string, name: string) => void;
+  onDeleted: (id: string) => void;
+}
+
+export default function WorkspacePicker({
+  isOpen,
+  onClose,
+  active,
+  currentData,
+  onOpen,
+  onRenamed,
+  onDeleted
+}: WorkspacePickerProps) {
+  const [tab, setTab] = useState<WorkspaceSource>('local');
+  const [session, setSession] = useState<Session | null>(null);
+  const store = cloudWorkspaceStore;
+
+  useEffect(() => {
+    if (!supabase) return;
+    supabase.auth.getSession().then(({ data }) => setSession(data.session));
+    const { data } = supabase.auth.onAuthStateChange((_event, next) => setSession(next));
+    return () => data.subscription.unsubscribe();
+  }, []);
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-gray-800 rounded-lg p-6 w-full max-w-lg">
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-xl font-semibold flex items-center">
+            <FolderOpen className="h-5 w-5 mr-2" />
+            Workspaces
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="flex space-x-2 mb-4">
+          <button
+            onClick={() => setTab('local')}
+            className={`flex items-center space-x-2 px-3 py-1.5 rounded text-sm ${tab === 'local' ? 'bg-gray-700' : 'hover:bg-gray-700'}`}
+          >
+            <HardDrive className="h-4 w-4" />
+            <span>This browser</span>
+          </button>
+          <button
+            onClick={() => setTab('cloud')}
+            className={`flex items-center space-x-2 px-3 py-1.5 rounded text-sm ${tab === 'cloud' ? 'bg-gray-700' : 'hover:bg-gray-700'}`}
+          >
+            <Cloud className="h-4 w-4" />
+            <span>Cloud</span>
+          </button>
+        </div>
+
+        {tab === 'local' ? (
+          <WorkspaceList
+            store={localWorkspaceStore}
+            activeId={active?.source === 'local' ? active.id : null}
+            currentData={currentData}
+            onOpen={(workspace) => onOpen('local', workspace)}
+            onRenamed={onRenamed}
+            onDeleted={onDeleted}
+          />
+        ) : !supabase || !store ? (
+          <p className="text-gray-300">
+            Cloud workspaces are not configured. Set <code className="bg-gray-700 px-1 rounded">VITE_SUPABASE_URL</code> and{' '}
+            <code className="bg-gray-700 px-1 rounded">VITE_SUPABASE_ANON_KEY</code> and redeploy.
+          </p>
+        ) : !session ? (
+          <AuthForm client={supabase} />
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between text-sm text-gray-400">
+              <span>Signed in as {session.user.email}</span>
+              <button
+                onClick={() => supabase?.auth.signOut()}
+                className="flex items-center space-x-1 hover:text-white"
+              >
+                <LogOut className="h-4 w-4" />
+                <span>Sign out</span>
+              </button>
+            </div>
+            <WorkspaceList
+              store={store}
+              activeId={active?.source === 'cloud' ? active.id : null}
+              currentData={currentData}
+              onOpen={(workspace) => onOpen('cloud', workspace)}
+              onRenamed={onRenamed}
+              onDeleted={onDeleted}
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
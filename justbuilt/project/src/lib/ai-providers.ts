@@ -1,43 +1,243 @@
-export type AIProvider = 'gemini' | 'mistral' | 'groq';
+import type { CodeActionKind } from './code-actions';
+import { supabase } from './supabase';
+
+// Provider ids come from the registry served by the `providers` function.
+export type AIProvider = string;
+
+export interface ProviderInfo {
+  id: AIProvider;
+  name: string;
+  models: string[];
+  defaultModel: string;
+  // Model -> tokens it can take in one request, prompt and reply together.
+  contextTokens: Record<string, number>;
+  capabilities: {
+    streaming: boolean;
+    jsonMode: boolean;
+  };
+}
+
+// From the `provider-status` function. Never includes credentials.
+export interface ProviderStatus {
+  id: AIProvider;
+  name: string;
+  configured: boolean;
+  reachable: boolean;
+  // Why it is not reachable, e.g. "Credentials were rejected".
+  detail?: string;
+  checkedAt: string;
+}
 
 interface DevelopmentStep {
   description: string;
   prompt: string;
 }
 
-interface FileStructure {
+export interface FileStructure {
   name: string;
   type: 'file' | 'directory';
   children?: FileStructure[];
 }
 
+export interface FileChange {
+  path: string;
+  content: string;
+}
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+// The text around the cursor, for an inline completion.
+export interface CompletionInput {
+  path: string;
+  prefix: string;
+  suffix: string;
+}
+
+type RequestType = 'plan' | 'structure' | 'code' | 'step' | 'chat' | 'complete' | CodeActionKind;
+
+// A single prompt, a conversation ending with a user message, or the text
+// around the cursor.
+type LLMInput = string | ChatMessage[] | CompletionInput;
+
+function inputFields(input: LLMInput) {
+  if (typeof input === 'string') return { prompt: input };
+  return Array.isArray(input) ? { messages: input } : input;
+}
+
+// Raised for non-2xx responses from the llm function. `details` carries the
+// schema validation errors when a plan or structure could not be repaired.
+export class LLMRequestError extends Error {
+  constructor(message: string, public status: number, public details: string[] = []) {
+    super(message);
+    this.name = 'LLMRequestError';
+  }
+}
+
+async function toRequestError(response: Response) {
+  const data = await response.json().catch(() => ({}));
+  return new LLMRequestError(data.error || `HTTP error! status: ${response.status}`, response.status, data.details);
+}
+
+// Deployments can require a signed-in user for the llm function.
+async function authHeaders(): Promise<Record<string, string>> {
+  const session = supabase ? (await supabase.auth.getSession()).data.session : null;
+  return session ? { Authorization: `Bearer ${session.access_token}` } : {};
+}
+
+interface StreamOptions {
+  onToken: (token: string) => void;
+  signal?: AbortSignal;
+}
+
 class AIService {
-  private async callLLMFunction(prompt: string, model: AIProvider, type: 'plan' | 'structure' | 'code') {
+  private providers: Promise<ProviderInfo[]> | null = null;
+  private statuses: Promise<ProviderStatus[]> | null = null;
+
+  // Fetched once per page load; a failed request is retried on the next call.
+  listProviders(): Promise<ProviderInfo[]> {
+    if (!this.providers) {
+      this.providers = fetch('/.netlify/functions/providers')
+        .then((response) => {
+          if (!response.ok) {
+            throw new Error(`HTTP error! status: ${response.status}`);
+          }
+          return response.json();
+        })
+        .then((data) => data.providers)
+        .catch((error) => {
+          console.error('Error loading providers:', error);
+          this.providers = null;
+          throw error;
+        });
+    }
+    return this.providers;
+  }
+
+  // Shared by every caller until `refresh` asks the server to probe again.
+  providerStatus(refresh = false): Promise<ProviderStatus[]> {
+    if (!this.statuses || refresh) {
+      this.statuses = fetch(`/.netlify/functions/provider-status${refresh ? '?refresh=true' : ''}`)
+        .then((response) => {
+          if (!response.ok) {
+            throw new Error(`HTTP error! status: ${response.status}`);
+          }
+          return response.json();
+        })
+        .then((data) => data.providers)
+        .catch((error) => {
+          console.error('Error checking providers:', error);
+          this.statuses = null;
+          throw error;
+        });
+    }
+    return this.statuses;
+  }
+
+  // The window of the model requests to `provider` go to, when known.
+  async contextTokens(provider: AIProvider): Promise<number | undefined> {
+    const info = (await this.listProviders()).find(({ id }) => id === provider);
+    return info?.contextTokens?.[info.defaultModel];
+  }
+
+  private async callLLMFunction(input: LLMInput, provider: AIProvider, type: RequestType, signal?: AbortSignal) {
     try {
       const response = await fetch('/.netlify/functions/llm', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...await authHeaders(),
         },
-        body: JSON.stringify({ prompt, model, type }),
+        body: JSON.stringify({ ...inputFields(input), provider, type }),
+        signal,
       });
 
       if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+        throw await toRequestError(response);
       }
 
       const data = await response.json();
       return data.result;
     } catch (error) {
-      console.error(`Error calling LLM function:`, error);
+      if (!signal?.aborted) {
+        console.error(`Error calling LLM function:`, error);
+      }
       throw error;
     }
   }
 
+  // Reads the function's Server-Sent Events response, handing each text delta
+  // to `onToken`, and resolves with the full text once the stream is done. A
+  // stream that ends without `[DONE]` was cut off, so it fails rather than
+  // passing partial text off as the whole reply.
+  private async streamLLMFunction(input: LLMInput, provider: AIProvider, type: RequestType, { onToken, signal }: StreamOptions) {
+    const response = await fetch('/.netlify/functions/llm', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'text/event-stream',
+        ...await authHeaders(),
+      },
+      body: JSON.stringify({ ...inputFields(input), provider, type, stream: true }),
+      signal,
+    });
+
+    if (!response.ok || !response.body) {
+      throw await toRequestError(response);
+    }
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    let result = '';
+    let finished = false;
+
+    const handleFrame = (frame: string) => {
+      const event = frame.match(/^event: (.*)$/m)?.[1];
+      const data = frame.match(/^data: (.*)$/m)?.[1];
+      if (!data) return;
+      if (data === '[DONE]') {
+        finished = true;
+        return;
+      }
+
+      const payload = JSON.parse(data);
+      if (event === 'error') {
+        throw new Error(payload.error);
+      }
+      result += payload.delta;
+      onToken(payload.delta);
+    };
+
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += value;
+
+      let boundary;
+      while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+        const frame = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        handleFrame(frame);
+      }
+    }
+
+    // The last frame may arrive without its closing blank line.
+    if (buffer.trim()) {
+      handleFrame(buffer);
+    }
+    if (!finished) {
+      throw new Error('The response was cut off before it finished. Try again.');
+    }
+
+    return result;
+  }
+
   async generateDetailedPlan(prompt: string, provider: AIProvider): Promise<DevelopmentStep[]> {
     try {
-      const result = await this.callLLMFunction(prompt, provider, 'plan');
-      return typeof result === 'string' ? JSON.parse(result) : result;
+      // Validated (and repaired or re-prompted if needed) by the function.
+      return await this.callLLMFunction(prompt, provider, 'plan');
     } catch (error) {
       console.error(`Error generating plan with ${provider}:`, error);
       throw error;
@@ -46,14 +246,22 @@ class AIService {
 
   async generateFileStructure(prompt: string, provider: AIProvider): Promise<FileStructure[]> {
     try {
-      const result = await this.callLLMFunction(prompt, provider, 'structure');
-      return typeof result === 'string' ? JSON.parse(result) : result;
+      return await this.callLLMFunction(prompt, provider, 'structure');
     } catch (error) {
       console.error(`Error generating file structure with ${provider}:`, error);
       throw error;
     }
   }
 
+  async generatePlanStep(prompt: string, provider: AIProvider): Promise<FileChange[]> {
+    try {
+      return await this.callLLMFunction(prompt, provider, 'step');
+    } catch (error) {
+      console.error(`Error running plan step with ${provider}:`, error);
+      throw error;
+    }
+  }
+
   async generateCode(prompt: string, provider: AIProvider): Promise<string> {
     try {
       const result = await this.callLLMFunction(prompt, provider, 'code');
@@ -63,6 +271,54 @@ class AIService {
       throw error;
     }
   }
+
+  async generateCodeStream(prompt: string, provider: AIProvider, options: StreamOptions): Promise<string> {
+    try {
+      return await this.streamLLMFunction(prompt, provider, 'code', options);
+    } catch (error) {
+      if (!options.signal?.aborted) {
+        console.error(`Error streaming code with ${provider}:`, error);
+      }
+      throw error;
+    }
+  }
+
+  // What to insert at the cursor, for ghost text in the editor. May be empty.
+  async complete(input: CompletionInput, provider: AIProvider, signal?: AbortSignal): Promise<string> {
+    try {
+      const result = await this.callLLMFunction(input, provider, 'complete', signal);
+      return typeof result === 'string' ? result : '';
+    } catch (error) {
+      if (!signal?.aborted) {
+        console.error(`Error completing code with ${provider}:`, error);
+      }
+      throw error;
+    }
+  }
+
+  // Streams the reply to a code action: an explanation, or the code that
+  // replaces the action's target.
+  async codeActionStream(kind: CodeActionKind, prompt: string, provider: AIProvider, options: StreamOptions): Promise<string> {
+    try {
+      return await this.streamLLMFunction(prompt, provider, kind, options);
+    } catch (error) {
+      if (!options.signal?.aborted) {
+        console.error(`Error running the ${kind} action with ${provider}:`, error);
+      }
+      throw error;
+    }
+  }
+
+  async chatStream(messages: ChatMessage[], provider: AIProvider, options: StreamOptions): Promise<string> {
+    try {
+      return await this.streamLLMFunction(messages, provider, 'chat', options);
+    } catch (error) {
+      if (!options.signal?.aborted) {
+        console.error(`Error streaming chat reply with ${provider}:`, error);
+      }
+      throw error;
+    }
+  }
 }
 
-export const aiService = new AIService();
\ No newline at end of file
+export const aiService = new AIService();
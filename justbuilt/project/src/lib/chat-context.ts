@@ -0,0 +1,92 @@
+import type { ChatMessage } from './ai-providers';
+import { estimateTokens } from './code-context';
+import { normalizePath } from './file-tree';
+
+export type ReplyPart =
+  | { type: 'text'; text: string }
+  // `path` comes from the info string, as in ```js src/index.js
+  | { type: 'code'; language: string; path?: string; code: string };
+
+const MENTION = /(^|\s)@([\w./-]+)/g;
+
+// Paths of project files mentioned as `@path/to/file`, in order, once each.
+// Trailing punctuation, as in "look at @src/index.js.", is not part of a path.
+export function findMentions(text: string, paths: string[]): string[] {
+  const known = new Set(paths);
+  const found: string[] = [];
+  for (const match of text.matchAll(MENTION)) {
+    let path = match[2];
+    while (path && !known.has(path) && /[./]$/.test(path)) path = path.slice(0, -1);
+    if (known.has(path) && !found.includes(path)) found.push(path);
+  }
+  return found;
+}
+
+// The mention being typed at the end of `text`, such as `src/in` for
+// "see @src/in", or null when the cursor is not in one.
+export function pendingMention(text: string): string | null {
+  return /(?:^|\s)@([\w./-]*)$/.exec(text)?.[1] ?? null;
+}
+
+// The conversation as the model should see it. Each mentioned file is
+// attached, with its current contents, to the last message that mentions it,
+// so a file discussed all along is only sent once. Files in `binary` are
+// named but not sent, as their data: URLs mean nothing to the model.
+export function withAttachments(messages: ChatMessage[], files: Record<string, string>, binary: Set<string> = new Set()): ChatMessage[] {
+  const paths = Object.keys(files);
+  const attached = new Set<string>();
+  return messages
+    .slice()
+    .reverse()
+    .map(message => {
+      if (message.role !== 'user') return message;
+      const mentions = findMentions(message.content, paths).filter(path => !attached.has(path));
+      if (mentions.length === 0) return message;
+      mentions.forEach(path => attached.add(path));
+      const attachments = mentions.map(path => binary.has(path)
+        ? `File ${path}: (binary file omitted)`
+        : `File ${path}:\n\`\`\`\n${files[path]}\n\`\`\``);
+      return { ...message, content: `${message.content}\n\n${attachments.join('\n\n')}` };
+    })
+    .reverse();
+}
+
+// The most recent messages that fit in `budget` tokens, starting with a user
+// message. The last message is always kept, so one that is too long on its
+// own still gets an error back rather than disappearing.
+export function trimConversation(messages: ChatMessage[], budget: number): ChatMessage[] {
+  let tokens = 0;
+  let start = messages.length;
+  while (start > 0) {
+    const next = tokens + estimateTokens(messages[start - 1].content);
+    if (start < messages.length && next > budget) break;
+    tokens = next;
+    start--;
+  }
+  while (start < messages.length - 1 && messages[start].role !== 'user') start++;
+  return messages.slice(start);
+}
+
+function parseInfo(info: string): { language: string; path?: string } {
+  const words = info.trim().split(/\s+/).filter(Boolean);
+  const looksLikePath = (word: string) => word.includes('/') || word.includes('.');
+  const path = words.find(looksLikePath);
+  const language = words.find(word => !looksLikePath(word)) ?? '';
+  return { language, path: path ? normalizePath(path) : undefined };
+}
+
+// Splits a reply into prose and fenced code blocks. A block still open at the
+// end, as while a reply streams in, runs to the end of the text.
+export function parseReply(text: string): ReplyPart[] {
+  const parts: ReplyPart[] = [];
+  const fence = /^```([^\n`]*)\n([\s\S]*?)(?:^```[ \t]*$|$(?![\s\S]))/gm;
+  let last = 0;
+  for (const match of text.matchAll(fence)) {
+    const index = match.index ?? 0;
+    if (index > last) parts.push({ type: 'text', text: text.slice(last, index) });
+    parts.push({ type: 'code', ...parseInfo(match[1]), code: match[2].replace(/\n$/, '') });
+    last = index + match[0].length;
+  }
+  if (last < text.length) parts.push({ type: 'text', text: text.slice(last) });
+  return parts.filter(part => part.type === 'code' || part.text.trim());
+}
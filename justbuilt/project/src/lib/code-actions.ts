@@ -0,0 +1,118 @@
+import type { OutputLine } from './code-runner';
+import { excerptOf, lineOf } from './code-context';
+import { baseName, parentPath } from './file-tree';
+
+export type CodeActionKind = 'explain' | 'refactor' | 'document' | 'test' | 'fix';
+
+// In the order they appear in the editor's context menu.
+export const CODE_ACTIONS: { kind: CodeActionKind; title: string }[] = [
+  { kind: 'explain', title: 'AI: Explain' },
+  { kind: 'refactor', title: 'AI: Refactor...' },
+  { kind: 'document', title: 'AI: Add doc comments' },
+  { kind: 'test', title: 'AI: Generate unit tests' },
+  { kind: 'fix', title: 'AI: Fix the last error' },
+];
+
+// The code an action works on: the selection, or the whole file when nothing
+// is selected, as offsets into `content`.
+export interface ActionTarget {
+  path: string;
+  content: string;
+  start: number;
+  end: number;
+}
+
+// Beyond this the rest of the file is cut down around the target.
+const FILE_CONTEXT_CHARS = 24000;
+
+export function targetLines(target: ActionTarget): [number, number] {
+  return [lineOf(target.content, target.start), lineOf(target.content, Math.max(target.start, target.end - 1))];
+}
+
+export function describeTarget(target: ActionTarget): string {
+  if (target.start === 0 && target.end === target.content.length) return target.path;
+  const [first, last] = targetLines(target);
+  return first === last ? `${target.path}, line ${first}` : `${target.path}, lines ${first}-${last}`;
+}
+
+// The last error the Run output shows: the final run of error lines, which
+// holds the message and any stack trace.
+export function latestError(output: OutputLine[]): string | null {
+  const end = output.map(line => line.level).lastIndexOf('error');
+  if (end === -1) return null;
+  let start = end;
+  while (start > 0 && output[start - 1].level === 'error') start--;
+  return output.slice(start, end + 1).map(line => line.text).join('\n');
+}
+
+// Where tests for `path` go: `test_name.py` for Python, `name.test.ext` for
+// everything else, next to the file. A test file's tests go in itself.
+export function testFilePath(path: string): string {
+  const directory = parentPath(path);
+  const name = baseName(path);
+  if (/\.(test|spec)\.|^test_.*\.py$/.test(name)) return path;
+  const dot = name.lastIndexOf('.');
+  const stem = dot > 0 ? name.slice(0, dot) : name;
+  const extension = dot > 0 ? name.slice(dot) : '';
+  const testName = extension === '.py' ? `test_${name}` : `${stem}.test${extension}`;
+  return directory ? `${directory}/${testName}` : testName;
+}
+
+// Models wrap code in a fence now and then even when told not to.
+export function stripCodeFence(text: string): string {
+  return text.replace(/^\s*```[^\n]*\n/, '').replace(/\n?```\s*$/, '');
+}
+
+function codeBlock(code: string) {
+  return `\`\`\`\n${code}\n\`\`\``;
+}
+
+// The target's code, and the rest of its file for context when the target is
+// only part of it.
+function targetSections(target: ActionTarget): string[] {
+  const code = target.content.slice(target.start, target.end);
+  const whole = target.start === 0 && target.end === target.content.length;
+  return [
+    `${whole ? 'File' : 'Code from'} ${describeTarget(target)}:\n${codeBlock(code)}`,
+    whole ? '' : `The whole of ${target.path}, for context:\n${codeBlock(excerptOf(target.content, FILE_CONTEXT_CHARS, target))}`,
+  ].filter(Boolean);
+}
+
+export interface ActionDetails {
+  // How to refactor, for `refactor`.
+  instructions?: string;
+  // The error to fix, for `fix`.
+  error?: string;
+  // Where the tests go and what is there already, for `test`.
+  testFile?: { path: string; content: string };
+}
+
+// The prompt for an action. Every kind has its own system prompt in the llm
+// function, so this only has to carry the code and the details.
+export function buildActionPrompt(kind: CodeActionKind, target: ActionTarget, details: ActionDetails = {}): string {
+  const sections = targetSections(target);
+  switch (kind) {
+    case 'explain':
+      return [...sections, `Explain the code from ${describeTarget(target)}.`].join('\n\n');
+    case 'refactor':
+      return [...sections, `Refactor the code from ${describeTarget(target)}: ${details.instructions || 'make it clearer'}`].join('\n\n');
+    case 'document':
+      return [...sections, `Add doc comments to the code from ${describeTarget(target)}.`].join('\n\n');
+    case 'fix':
+      return [
+        ...sections,
+        `Running the project failed with:\n${codeBlock(details.error || '')}`,
+        `Fix the code from ${describeTarget(target)} so the error goes away.`,
+      ].join('\n\n');
+    case 'test': {
+      const testFile = details.testFile ?? { path: testFilePath(target.path), content: '' };
+      return [
+        ...sections,
+        testFile.content
+          ? `The tests go in ${testFile.path}, which already holds:\n${codeBlock(testFile.content)}`
+          : `The tests go in ${testFile.path}, a new file next to ${target.path}.`,
+        `Write unit tests for the code from ${describeTarget(target)}.`,
+      ].join('\n\n');
+    }
+  }
+}
@@ -0,0 +1,217 @@
+import { binaryPaths, fileContents, listFilePaths, type FileNode } from './file-tree';
+import { resolveModule } from './module-loader';
+
+// Why a file is part of the context.
+//   current   the file being edited
+//   import    imported by the current file
+//   importer  imports the current file
+//   open      open in another tab
+//   added     picked by hand
+export type ContextReason = 'current' | 'import' | 'importer' | 'open' | 'added' | 'project';
+
+// How much of a file is sent: all of it, its declarations only, a cut-down
+// excerpt, or nothing because the budget ran out.
+export type ContextMode = 'full' | 'outline' | 'truncated' | 'omitted';
+
+export interface ContextFile {
+  path: string;
+  reason: ContextReason;
+  mode: ContextMode;
+  // What the model gets to see of the file.
+  content: string;
+  tokens: number;
+}
+
+export interface CodeContext {
+  files: ContextFile[];
+  tokens: number;
+  budget: number;
+}
+
+// Offsets into the current file, as the editor's selection.
+export interface ContextSelection {
+  start: number;
+  end: number;
+}
+
+// Changes to the suggested files made in the context chip list.
+export interface ContextEdits {
+  added: string[];
+  removed: string[];
+}
+
+// Room left in the model's window for the instructions and the reply.
+const BUDGET_SHARE = 0.5;
+// Used for models whose window the providers function does not report.
+export const DEFAULT_CONTEXT_TOKENS = 8192;
+// Excerpts smaller than this tell the model too little to be worth sending.
+const MIN_EXCERPT_TOKENS = 64;
+// Room for the "lines left out" notes around an excerpt.
+const EXCERPT_MARKER_TOKENS = 16;
+
+// About four characters a token for code and English; close enough to budget by.
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Tokens of context to send to a model with a `contextTokens` window.
+export function contextBudget(contextTokens = DEFAULT_CONTEXT_TOKENS): number {
+  return Math.floor(contextTokens * BUDGET_SHARE);
+}
+
+const JS_IMPORT = /(?:\bfrom\s*|\bimport\s*\(?\s*|\brequire\s*\(\s*)(['"])([^'"\n]+)\1/g;
+const CSS_IMPORT = /@import\s+(?:url\()?\s*(['"])([^'"\n]+)\1/g;
+const PYTHON_IMPORT = /^\s*(?:from\s+(\.*[\w.]*)\s+import|import\s+([\w.]+))/gm;
+
+// Project files `path` imports. Only relative specifiers resolve, so packages
+// are left out.
+export function findImports(path: string, content: string, paths: Set<string>): string[] {
+  const found = new Set<string>();
+  if (path.endsWith('.py')) {
+    const directory = path.includes('/') ? path.slice(0, path.lastIndexOf('/') + 1) : '';
+    for (const match of content.matchAll(PYTHON_IMPORT)) {
+      const name = match[1] ?? match[2];
+      const dots = /^\.*/.exec(name)?.[0].length ?? 0;
+      const module = name.slice(dots).replace(/\./g, '/');
+      // `from . import x` names a package; sibling modules are all we look for.
+      const candidates = module ? [`${directory}${module}.py`, `${module}.py`, `${directory}${module}/__init__.py`] : [];
+      const resolved = candidates.find(candidate => paths.has(candidate));
+      if (resolved && resolved !== path) found.add(resolved);
+    }
+  } else {
+    const pattern = path.endsWith('.css') ? CSS_IMPORT : JS_IMPORT;
+    for (const match of content.matchAll(pattern)) {
+      const resolved = resolveModule(paths, path, match[2]);
+      if (resolved && resolved !== path) found.add(resolved);
+    }
+  }
+  return [...found];
+}
+
+// The files worth sending along with `current`, most relevant first, before
+// any edits from the chip list.
+export function suggestContext(nodes: FileNode[], current: string, openFiles: string[]): { path: string; reason: ContextReason }[] {
+  const contents = fileContents(nodes);
+  const binary = binaryPaths(nodes);
+  const paths = new Set(listFilePaths(nodes).filter(path => !binary.has(path)));
+  if (!paths.has(current)) return [];
+
+  const suggested: { path: string; reason: ContextReason }[] = [{ path: current, reason: 'current' }];
+  const add = (path: string, reason: ContextReason) => {
+    if (paths.has(path) && !suggested.some(entry => entry.path === path)) suggested.push({ path, reason });
+  };
+  findImports(current, contents[current], paths).forEach(path => add(path, 'import'));
+  paths.forEach(path => {
+    if (findImports(path, contents[path], paths).includes(current)) add(path, 'importer');
+  });
+  openFiles.forEach(path => add(path, 'open'));
+  return suggested;
+}
+
+// Suggestions with the chip list's edits applied: removed files dropped and
+// added ones sent right after the current file.
+export function applyContextEdits(
+  suggested: { path: string; reason: ContextReason }[],
+  edits: ContextEdits,
+  paths: string[]
+): { path: string; reason: ContextReason }[] {
+  const kept = suggested.filter(entry => !edits.removed.includes(entry.path));
+  const added = edits.added
+    .filter(path => paths.includes(path) && !kept.some(entry => entry.path === path))
+    .map(path => ({ path, reason: 'added' as const }));
+  const current = kept.filter(entry => entry.reason === 'current');
+  return [...current, ...added, ...kept.filter(entry => entry.reason !== 'current')];
+}
+
+const DECLARATION = /^(?:export\s+|async\s+|default\s+|declare\s+|abstract\s+)*(?:import|function\*?|class|interface|type|enum|const|let|var|def|from)\b|^@/;
+
+// A summary of a file the model can code against: its top-level imports and
+// declarations, one line each, with the bodies left out.
+export function outlineOf(content: string): string {
+  const lines: string[] = [];
+  for (const line of content.split('\n')) {
+    const declaration = DECLARATION.test(line);
+    if (declaration) lines.push(line.trimEnd());
+    else if (line.trim() && lines.length > 0 && lines[lines.length - 1] !== '  …') lines.push('  …');
+  }
+  return lines.join('\n');
+}
+
+// At most `maxChars` of `content`, in whole lines, centred on `focus` when
+// given (such as the selection), otherwise from the top.
+export function excerptOf(content: string, maxChars: number, focus?: ContextSelection): string {
+  if (content.length <= maxChars) return content;
+  const middle = focus ? Math.floor((focus.start + focus.end) / 2) : 0;
+  let start = Math.max(0, Math.min(middle - Math.floor(maxChars / 2), content.length - maxChars));
+  let end = start + maxChars;
+  // Round inwards to whole lines.
+  if (start > 0) start = content.indexOf('\n', start) + 1 || end;
+  if (end < content.length) end = Math.max(start, content.lastIndexOf('\n', end));
+  return [
+    start > 0 ? '… (earlier lines left out)' : '',
+    content.slice(start, end),
+    end < content.length ? '… (later lines left out)' : '',
+  ].filter(Boolean).join('\n');
+}
+
+// Decides how much of each file to send, in order, so the whole context stays
+// within `budget` tokens. A file that does not fit is sent as an outline, then
+// as an excerpt of what room is left, and is otherwise omitted. Excerpts of
+// the current file are centred on the selection.
+export function fitContext(
+  entries: { path: string; reason: ContextReason }[],
+  contents: Record<string, string>,
+  budget: number,
+  selection?: ContextSelection
+): CodeContext {
+  let remaining = budget;
+  const files = entries.map(({ path, reason }): ContextFile => {
+    const content = contents[path] ?? '';
+    const focus = reason === 'current' ? selection : undefined;
+    const outline = outlineOf(content);
+    const options: [ContextMode, string][] = [
+      ['full', content],
+      ...(reason === 'current' || !outline ? [] : [['outline', outline] as [ContextMode, string]]),
+    ];
+    const fitting = options.find(([, text]) => estimateTokens(text) <= remaining);
+    const [mode, text]: [ContextMode, string] = fitting
+      ?? (remaining >= MIN_EXCERPT_TOKENS ? ['truncated', excerptOf(content, (remaining - EXCERPT_MARKER_TOKENS) * 4, focus)] : ['omitted', '']);
+    const tokens = estimateTokens(text);
+    remaining -= tokens;
+    return { path, reason, mode, content: text, tokens };
+  });
+  return { files, tokens: budget - remaining, budget };
+}
+
+// One-based line of `offset` in `content`.
+export function lineOf(content: string, offset: number): number {
+  return content.slice(0, offset).split('\n').length;
+}
+
+// The prompt for a code generation: the request, what to write, and every
+// file in the context. The reply replaces the selection, or is inserted at
+// the cursor when nothing is selected.
+export function buildCodePrompt(
+  request: string,
+  current: { path: string; content: string; selection: ContextSelection },
+  context: CodeContext
+): string {
+  const { path, content, selection } = current;
+  const selected = content.slice(selection.start, selection.end);
+  const target = selected
+    ? `Write code to replace lines ${lineOf(content, selection.start)}-${lineOf(content, selection.end - 1)} of ${path}, currently:\n\`\`\`\n${selected}\n\`\`\``
+    : `Write code to insert into ${path} at line ${lineOf(content, selection.start)}.`;
+  const sections = context.files
+    .filter(file => file.mode !== 'omitted')
+    .map(file => {
+      const note = file.mode === 'outline' ? ' (outline)' : file.mode === 'truncated' ? ' (excerpt)' : '';
+      return `--- ${file.path}${note}\n${file.content}`;
+    });
+
+  return [
+    sections.length > 0 ? `Project files:\n${sections.join('\n\n')}` : '',
+    target,
+    `Request: ${request}`,
+    'Reply with only that code, matching the style of the surrounding files.',
+  ].filter(Boolean).join('\n\n');
+}
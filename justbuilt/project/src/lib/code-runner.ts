@@ -0,0 +1,177 @@
+import { createInputChannel, writeInput, type InputChannel } from './input-channel';
+
+export type ConsoleLevel = 'log' | 'info' | 'warn' | 'error' | 'debug';
+
+export type RunnerRequest = {
+  type: 'run';
+  files: Record<string, string>;
+  entry: string;
+  sourceMaps?: Record<string, string>;
+  input?: InputChannel;
+};
+
+export type RunnerEvent =
+  | { type: 'console'; level: ConsoleLevel; text: string }
+  | { type: 'error'; kind: 'uncaught' | 'unhandledrejection'; text: string }
+  // Sent once the runtime has loaded and user code is about to start.
+  | { type: 'started' }
+  | { type: 'input'; prompt: string }
+  | { type: 'idle' };
+
+export interface OutputLine {
+  level: ConsoleLevel | 'system';
+  text: string;
+  // Set on the notice that stands in for lines dropped from the top.
+  dropped?: number;
+}
+
+// Lines the Output panel keeps. A program that logs in a loop would otherwise
+// grow it until the tab runs out of memory.
+export const MAX_OUTPUT_LINES = 5000;
+
+// `lines` followed by `added`, keeping only the last `max` lines behind a
+// single notice that counts everything dropped so far.
+export function appendOutput(lines: OutputLine[], added: OutputLine[], max = MAX_OUTPUT_LINES): OutputLine[] {
+  const all = [...lines, ...added];
+  let dropped = 0;
+  const rest = all.filter(line => {
+    dropped += line.dropped ?? 0;
+    return line.dropped === undefined;
+  });
+  if (dropped === 0 && rest.length <= max) return all;
+
+  const kept = rest.slice(-(max - 1));
+  dropped += rest.length - kept.length;
+  return [{ level: 'system', text: `… ${dropped} earlier lines dropped`, dropped }, ...kept];
+}
+
+export type RunOutcome = 'completed' | 'timeout' | 'stopped';
+
+export interface RunHandle {
+  done: Promise<RunOutcome>;
+  stop: () => void;
+}
+
+export const DEFAULT_RUN_TIMEOUT_MS = 10_000;
+
+export type Runtime = 'javascript' | 'python';
+
+// The runtime that runs files of a language, or null when Run can't run them.
+// TypeScript is compiled to JavaScript before it gets here.
+export function runtimeFor(language: string): Runtime | null {
+  switch (language) {
+    case 'javascript':
+    case 'typescript':
+      return 'javascript';
+    case 'python':
+      return 'python';
+    default:
+      return null;
+  }
+}
+
+export interface RunOptions {
+  runtime: Runtime;
+  timeoutMs?: number;
+  // Source maps for files compiled from another language, so errors point
+  // at the original lines.
+  sourceMaps?: Record<string, string>;
+  onOutput: (line: OutputLine) => void;
+  // Called when the program asks for a line of input; resolve with null for
+  // end of input.
+  onInput?: (prompt: string) => Promise<string | null>;
+}
+
+function createWorker(runtime: Runtime) {
+  return runtime === 'python'
+    ? new Worker(new URL('./python-runner.worker.ts', import.meta.url), { type: 'module' })
+    : new Worker(new URL('./code-runner.worker.ts', import.meta.url), { type: 'module' });
+}
+
+// Runs the project `files` (path -> content) in a fresh worker of the given
+// runtime, starting from `entry`. Output is reported line by line through
+// `onOutput`, including anything logged by timers or promises after the
+// top-level code returns. The worker is terminated when the run
+// goes idle, when `timeoutMs` passes, or when `stop` is called, whichever
+// comes first. The timeout counts from when user code starts, so loading a
+// runtime is not held against it, and stands still while waiting for input.
+export function runCode(
+  files: Record<string, string>,
+  entry: string,
+  { runtime, timeoutMs = DEFAULT_RUN_TIMEOUT_MS, sourceMaps, onOutput, onInput }: RunOptions
+): RunHandle {
+  const worker = createWorker(runtime);
+  const input = createInputChannel();
+  let finish: (outcome: RunOutcome) => void = () => {};
+  let remainingMs = timeoutMs;
+  let timerStartedAt = 0;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  if (runtime === 'python') onOutput({ level: 'system', text: 'Loading Python...' });
+
+  const startTimer = () => {
+    timerStartedAt = Date.now();
+    timer = setTimeout(() => finish('timeout'), remainingMs);
+  };
+  const pauseTimer = () => {
+    clearTimeout(timer);
+    remainingMs -= Date.now() - timerStartedAt;
+  };
+
+  const done = new Promise<RunOutcome>((resolve) => {
+    let settled = false;
+
+    finish = (outcome) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      worker.terminate();
+      if (outcome === 'timeout') {
+        onOutput({ level: 'system', text: `Execution timed out after ${timeoutMs / 1000}s and was stopped.` });
+      } else if (outcome === 'stopped') {
+        onOutput({ level: 'system', text: 'Execution stopped.' });
+      }
+      resolve(outcome);
+    };
+  });
+
+  worker.onmessage = async (event: MessageEvent<RunnerEvent>) => {
+    const message = event.data;
+    switch (message.type) {
+      case 'console':
+        onOutput({ level: message.level, text: message.text });
+        break;
+      case 'error':
+        onOutput({
+          level: 'error',
+          text: message.kind === 'unhandledrejection'
+            ? `Unhandled promise rejection: ${message.text}`
+            : `Uncaught ${message.text}`,
+        });
+        break;
+      case 'started':
+        startTimer();
+        break;
+      case 'input': {
+        if (!input) break;
+        pauseTimer();
+        const line = onInput ? await onInput(message.prompt) : null;
+        writeInput(input, line);
+        startTimer();
+        break;
+      }
+      case 'idle':
+        finish('completed');
+        break;
+    }
+  };
+
+  worker.onerror = (event) => {
+    event.preventDefault();
+    onOutput({ level: 'error', text: `Runner failed: ${event.message}` });
+    finish('completed');
+  };
+
+  worker.postMessage({ type: 'run', files, entry, sourceMaps, input } satisfies RunnerRequest);
+
+  return { done, stop: () => finish('stopped') };
+}
@@ -0,0 +1,150 @@
+// Runs user code off the main thread. The page can terminate this worker at
+// any time, so an infinite loop costs a timeout instead of the IDE. The
+// worker has no DOM, cookies or app state; the storage APIs it would share
+// with the IDE's origin are removed and fetch defaults to omitting
+// credentials.
+import type { ConsoleLevel, RunnerEvent, RunnerRequest } from './code-runner';
+import { createModuleLoader, type ModuleLoader } from './module-loader';
+
+type TimerFunction = (handler: TimerHandler, delay?: number, ...args: unknown[]) => number;
+
+const scope = self as unknown as {
+  postMessage(message: RunnerEvent): void;
+  addEventListener(type: string, listener: (event: MessageEvent & PromiseRejectionEvent & ErrorEvent) => void): void;
+  fetch: typeof fetch;
+  setTimeout: TimerFunction;
+  clearTimeout: (id?: number) => void;
+  setInterval: TimerFunction;
+  clearInterval: (id?: number) => void;
+};
+
+const post = (event: RunnerEvent) => scope.postMessage(event);
+
+let loader: ModuleLoader | null = null;
+
+function formatValue(value: unknown, seen = new WeakSet<object>()): string {
+  if (typeof value === 'string') return value;
+  if (value instanceof Error) return loader ? loader.formatError(value) : `${value.name}: ${value.message}`;
+  if (typeof value === 'function') return `[Function ${value.name || 'anonymous'}]`;
+  if (typeof value === 'bigint') return `${value}n`;
+  if (typeof value !== 'object' || value === null) return String(value);
+  if (seen.has(value)) return '[Circular]';
+  seen.add(value);
+  if (Array.isArray(value)) return `[${value.map(item => formatNested(item, seen)).join(', ')}]`;
+  if (value instanceof Map) return `Map(${value.size}) {${[...value].map(([k, v]) => `${formatNested(k, seen)} => ${formatNested(v, seen)}`).join(', ')}}`;
+  if (value instanceof Set) return `Set(${value.size}) {${[...value].map(v => formatNested(v, seen)).join(', ')}}`;
+  return `{${Object.entries(value).map(([k, v]) => `${k}: ${formatNested(v, seen)}`).join(', ')}}`;
+}
+
+function formatNested(value: unknown, seen: WeakSet<object>) {
+  return typeof value === 'string' ? JSON.stringify(value) : formatValue(value, seen);
+}
+
+const levels: ConsoleLevel[] = ['log', 'info', 'warn', 'error', 'debug'];
+for (const level of levels) {
+  console[level] = (...args: unknown[]) => post({ type: 'console', level, text: args.map(arg => formatValue(arg)).join(' ') });
+}
+console.table = (data: unknown) => post({ type: 'console', level: 'log', text: formatValue(data) });
+
+// A run is over once the top-level code has finished and no timer or fetch it
+// started is still pending. Intervals keep it alive until stopped or timed out.
+let pending = 0;
+let mainDone = false;
+const timers = new Set<number>();
+const realSetTimeout = scope.setTimeout.bind(self);
+const realClearTimeout = scope.clearTimeout.bind(self);
+const realSetInterval = scope.setInterval.bind(self);
+const realClearInterval = scope.clearInterval.bind(self);
+const realFetch = scope.fetch.bind(self);
+
+function settle() {
+  if (!mainDone || pending > 0) return;
+  // Give queued microtasks one more turn before calling it idle.
+  realSetTimeout(() => {
+    if (mainDone && pending === 0) post({ type: 'idle' });
+  }, 0);
+}
+
+function track(id: number) {
+  timers.add(id);
+  pending++;
+}
+
+function untrack(id?: number) {
+  if (id !== undefined && timers.delete(id)) {
+    pending--;
+    settle();
+  }
+}
+
+scope.setTimeout = (handler, delay, ...args) => {
+  const id = realSetTimeout(() => {
+    try {
+      if (typeof handler === 'function') handler(...args);
+    } finally {
+      untrack(id);
+    }
+  }, delay);
+  track(id);
+  return id;
+};
+
+scope.clearTimeout = (id) => {
+  realClearTimeout(id);
+  untrack(id);
+};
+
+scope.setInterval = (handler, delay, ...args) => {
+  const id = realSetInterval(() => {
+    if (typeof handler === 'function') handler(...args);
+  }, delay);
+  track(id);
+  return id;
+};
+
+scope.clearInterval = (id) => {
+  realClearInterval(id);
+  untrack(id);
+};
+
+scope.fetch = async (input: RequestInfo | URL, init?: RequestInit) => {
+  pending++;
+  try {
+    return await realFetch(input, { credentials: 'omit', ...init });
+  } finally {
+    pending--;
+    settle();
+  }
+};
+
+for (const name of ['indexedDB', 'caches']) {
+  Object.defineProperty(self, name, { value: undefined, configurable: false });
+}
+
+scope.addEventListener('error', (event) => {
+  event.preventDefault();
+  post({ type: 'error', kind: 'uncaught', text: event.error ? formatValue(event.error) : event.message });
+});
+
+scope.addEventListener('unhandledrejection', (event) => {
+  event.preventDefault();
+  post({ type: 'error', kind: 'unhandledrejection', text: formatValue(event.reason) });
+});
+
+scope.addEventListener('message', async (event) => {
+  const request = event.data as RunnerRequest;
+  if (request.type !== 'run') return;
+
+  loader = createModuleLoader(request.files, {
+    onWarning: (text) => post({ type: 'console', level: 'warn', text }),
+    sourceMaps: request.sourceMaps,
+  });
+  post({ type: 'started' });
+  try {
+    await loader.run(request.entry);
+  } catch (error) {
+    post({ type: 'error', kind: 'uncaught', text: formatValue(error) });
+  }
+  mainDone = true;
+  settle();
+});
@@ -0,0 +1,49 @@
+// The subset of Monaco's ILineChange we need. Line numbers are 1-based; an end
+// line of 0 means the hunk is empty on that side and sits after the start line.
+export interface LineChange {
+  originalStartLineNumber: number;
+  originalEndLineNumber: number;
+  modifiedStartLineNumber: number;
+  modifiedEndLineNumber: number;
+}
+
+function lineSpan(start: number, end: number): [number, number] {
+  return end === 0 ? [start, start] : [start - 1, end];
+}
+
+function replaceLines(target: string, targetSpan: [number, number], source: string, sourceSpan: [number, number]) {
+  const targetLines = target.split('\n');
+  const sourceLines = source.split('\n').slice(sourceSpan[0], sourceSpan[1]);
+  targetLines.splice(targetSpan[0], targetSpan[1] - targetSpan[0], ...sourceLines);
+  return targetLines.join('\n');
+}
+
+// Accepting a hunk copies the modified lines into the original text.
+export function acceptHunk(original: string, modified: string, change: LineChange): string {
+  return replaceLines(
+    original,
+    lineSpan(change.originalStartLineNumber, change.originalEndLineNumber),
+    modified,
+    lineSpan(change.modifiedStartLineNumber, change.modifiedEndLineNumber)
+  );
+}
+
+// Rejecting a hunk puts the original lines back into the modified text.
+export function rejectHunk(original: string, modified: string, change: LineChange): string {
+  return replaceLines(
+    modified,
+    lineSpan(change.modifiedStartLineNumber, change.modifiedEndLineNumber),
+    original,
+    lineSpan(change.originalStartLineNumber, change.originalEndLineNumber)
+  );
+}
+
+export function describeHunk(change: LineChange): string {
+  if (change.originalEndLineNumber === 0) {
+    return `Insert after line ${change.originalStartLineNumber}`;
+  }
+  if (change.modifiedEndLineNumber === 0) {
+    return `Delete lines ${change.originalStartLineNumber}–${change.originalEndLineNumber}`;
+  }
+  return `Change lines ${change.originalStartLineNumber}–${change.originalEndLineNumber}`;
+}
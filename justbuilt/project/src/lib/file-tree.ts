@@ -0,0 +1,231 @@
+export interface FileNode {
+  name: string;
+  type: 'file' | 'directory';
+  children?: FileNode[];
+  content?: string;
+  // Set on binary files, whose content is then a base64 data: URL.
+  encoding?: 'base64';
+}
+
+// Strips the leading `./` or `/` that models like to put on project paths.
+export function normalizePath(path: string): string {
+  return path.trim().replace(/^(\.\/|\/)+/, '');
+}
+
+// Resolves `reference` (relative, or root-relative when it starts with `/`)
+// against the directory of the file at `from`.
+export function resolveRelativePath(from: string, reference: string): string {
+  const parts = reference.startsWith('/') ? [] : from.split('/').slice(0, -1);
+  for (const part of reference.split('/')) {
+    if (part === '..') parts.pop();
+    else if (part && part !== '.') parts.push(part);
+  }
+  return parts.join('/');
+}
+
+export function findNode(nodes: FileNode[], path: string): FileNode | undefined {
+  const parts = path.split('/');
+  let current: FileNode[] = nodes;
+  let found: FileNode | undefined;
+
+  for (const part of parts) {
+    found = current.find(n => n.name === part);
+    if (!found) return undefined;
+    current = found.children || [];
+  }
+
+  return found;
+}
+
+export function setFileContent(nodes: FileNode[], path: string, content: string): FileNode[] {
+  const parts = path.split('/');
+  const updateNode = (level: FileNode[], depth: number): FileNode[] => {
+    return level.map(node => {
+      if (node.name === parts[depth]) {
+        if (depth === parts.length - 1) {
+          return { ...node, content };
+        }
+        return {
+          ...node,
+          children: node.children ? updateNode(node.children, depth + 1) : []
+        };
+      }
+      return node;
+    });
+  };
+
+  return updateNode(nodes, 0);
+}
+
+// Creates or overwrites the file at `path`, creating any missing directories.
+// Throws a FileTreeError rather than replace a folder with a file or a file
+// with a folder.
+export function writeFile(nodes: FileNode[], path: string, content: string, encoding?: 'base64'): FileNode[] {
+  const write = (siblings: FileNode[], parts: string[], depth: number): FileNode[] => {
+    const name = parts[depth];
+    const index = siblings.findIndex(n => n.name === name);
+    const existing = index === -1 ? undefined : siblings[index];
+    const existingPath = parts.slice(0, depth + 1).join('/');
+
+    if (depth === parts.length - 1) {
+      if (existing?.type === 'directory') throw new FileTreeError(`${existingPath} is a folder`);
+      const file: FileNode = encoding ? { name, type: 'file', content, encoding } : { name, type: 'file', content };
+      return index === -1 ? [...siblings, file] : siblings.map((n, i) => i === index ? file : n);
+    }
+
+    if (existing?.type === 'file') throw new FileTreeError(`${existingPath} is a file, not a folder`);
+    const updated: FileNode = {
+      name,
+      type: 'directory',
+      children: write(existing?.children || [], parts, depth + 1),
+    };
+    return index === -1 ? [...siblings, updated] : siblings.map((n, i) => i === index ? updated : n);
+  };
+
+  return write(nodes, path.split('/'), 0);
+}
+
+// Paths of every file in the tree, depth first, in tree order.
+export function listFilePaths(nodes: FileNode[], parent: string = ''): string[] {
+  return nodes.flatMap(node => {
+    const path = parent ? `${parent}/${node.name}` : node.name;
+    return node.type === 'file' ? [path] : listFilePaths(node.children || [], path);
+  });
+}
+
+// Path -> content for every file in the tree.
+export function fileContents(nodes: FileNode[], parent: string = ''): Record<string, string> {
+  return Object.fromEntries(nodes.flatMap(node => {
+    const path = parent ? `${parent}/${node.name}` : node.name;
+    return node.type === 'file'
+      ? [[path, node.content || '']]
+      : Object.entries(fileContents(node.children || [], path));
+  }));
+}
+
+// Paths of the binary files, which hold data: URLs rather than text.
+export function binaryPaths(nodes: FileNode[], parent: string = ''): Set<string> {
+  return new Set(nodes.flatMap(node => {
+    const path = parent ? `${parent}/${node.name}` : node.name;
+    if (node.type === 'directory') return [...binaryPaths(node.children || [], path)];
+    return node.encoding === 'base64' ? [path] : [];
+  }));
+}
+
+// Thrown by the tree operations below when the change isn't allowed, with a
+// message that can be shown as is.
+export class FileTreeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FileTreeError';
+  }
+}
+
+export function parentPath(path: string): string {
+  return path.split('/').slice(0, -1).join('/');
+}
+
+export function baseName(path: string): string {
+  return path.split('/').pop() || '';
+}
+
+export function joinPath(dirPath: string, name: string): string {
+  return dirPath ? `${dirPath}/${name}` : name;
+}
+
+// Whether `path` is `dirPath` itself or somewhere inside it.
+export function isWithin(path: string, dirPath: string): boolean {
+  return path === dirPath || path.startsWith(`${dirPath}/`);
+}
+
+// Where `path` ends up after whatever is at `from` moves to `to`.
+export function movedPath(path: string, from: string, to: string): string {
+  return isWithin(path, from) ? to + path.slice(from.length) : path;
+}
+
+// Why `name` can't be used for a file or folder, or null when it can.
+export function validateFileName(name: string): string | null {
+  if (!name) return 'Enter a name';
+  if (name !== name.trim()) return 'Names cannot start or end with spaces';
+  if (/[/\\]/.test(name)) return 'Names cannot contain slashes';
+  if (name === '.' || name === '..') return `"${name}" is not a valid name`;
+  return null;
+}
+
+function childrenOf(nodes: FileNode[], dirPath: string): FileNode[] | undefined {
+  if (!dirPath) return nodes;
+  const dir = findNode(nodes, dirPath);
+  return dir?.type === 'directory' ? dir.children || [] : undefined;
+}
+
+// Replaces the children of the directory at `dirPath`, or the root when empty.
+function updateChildren(nodes: FileNode[], dirPath: string, update: (children: FileNode[]) => FileNode[]): FileNode[] {
+  if (!dirPath) return update(nodes);
+  const [name, ...rest] = dirPath.split('/');
+  return nodes.map(node => node.name === name && node.type === 'directory'
+    ? { ...node, children: updateChildren(node.children || [], rest.join('/'), update) }
+    : node
+  );
+}
+
+// Checks that `name` can be added to `dirPath`, ignoring the entry named
+// `replacing`, which is about to be renamed.
+function checkFreeName(nodes: FileNode[], dirPath: string, name: string, replacing?: string) {
+  const invalid = validateFileName(name);
+  if (invalid) throw new FileTreeError(invalid);
+  const siblings = childrenOf(nodes, dirPath);
+  if (!siblings) throw new FileTreeError(`${dirPath} is not a folder`);
+  if (siblings.some(node => node.name === name && node.name !== replacing)) {
+    throw new FileTreeError(`${joinPath(dirPath, name)} already exists`);
+  }
+}
+
+// Adds `node` to the existing directory at `dirPath`.
+export function insertNode(nodes: FileNode[], dirPath: string, node: FileNode): FileNode[] {
+  checkFreeName(nodes, dirPath, node.name);
+  return updateChildren(nodes, dirPath, children => [...children, node]);
+}
+
+export function removeNode(nodes: FileNode[], path: string): FileNode[] {
+  const name = baseName(path);
+  return updateChildren(nodes, parentPath(path), children => children.filter(node => node.name !== name));
+}
+
+// Renames or moves the file or folder at `from` to `to`. A rename keeps the
+// entry's place among its siblings; a move adds it after them.
+export function moveNode(nodes: FileNode[], from: string, to: string): FileNode[] {
+  const node = findNode(nodes, from);
+  if (!node) throw new FileTreeError(`${from} does not exist`);
+  if (to === from) return nodes;
+  if (node.type === 'directory' && isWithin(to, from)) {
+    throw new FileTreeError('A folder cannot be moved into itself');
+  }
+
+  const dirPath = parentPath(to);
+  const name = baseName(to);
+  if (dirPath === parentPath(from)) {
+    checkFreeName(nodes, dirPath, name, node.name);
+    return updateChildren(nodes, dirPath, children => children.map(child => child === node ? { ...node, name } : child));
+  }
+  return insertNode(removeNode(nodes, from), dirPath, { ...node, name });
+}
+
+// Copies the file or folder at `path` next to itself as "name copy.ext",
+// numbering the copy when that is taken. Returns the copy's path too.
+export function duplicateNode(nodes: FileNode[], path: string): { nodes: FileNode[]; path: string } {
+  const node = findNode(nodes, path);
+  if (!node) throw new FileTreeError(`${path} does not exist`);
+
+  const dirPath = parentPath(path);
+  const taken = new Set((childrenOf(nodes, dirPath) || []).map(child => child.name));
+  const dot = node.type === 'file' ? node.name.lastIndexOf('.') : -1;
+  const [stem, extension] = dot > 0 ? [node.name.slice(0, dot), node.name.slice(dot)] : [node.name, ''];
+  let name = `${stem} copy${extension}`;
+  for (let n = 2; taken.has(name); n++) name = `${stem} copy ${n}${extension}`;
+
+  const copy = structuredClone({ ...node, name });
+  return {
+    nodes: updateChildren(nodes, dirPath, children => children.flatMap(child => child === node ? [child, copy] : [child])),
+    path: joinPath(dirPath, name),
+  };
+}
@@ -0,0 +1,130 @@
+import { resolveRelativePath } from './file-tree';
+import { mimeTypeOf } from './mime-types';
+
+export const PREVIEW_MESSAGE_SOURCE = 'just-built-preview';
+
+export interface PreviewMessage {
+  source: typeof PREVIEW_MESSAGE_SOURCE;
+  level: 'log' | 'info' | 'warn' | 'error' | 'debug';
+  text: string;
+}
+
+export interface PreviewBuild {
+  url: string;
+  // References that did not match a project file, as `path: reference`.
+  missing: string[];
+  // Replaces the blob URLs in `text` with the project paths they stand for.
+  describe: (text: string) => string;
+  revoke: () => void;
+}
+
+// Forwards the page's console and uncaught errors to the IDE. Runs before
+// anything else in the previewed document.
+const CONSOLE_BRIDGE = `(() => {
+  const format = (value) => {
+    if (typeof value === 'string') return value;
+    if (value instanceof Error) return value.stack || String(value);
+    try { return JSON.stringify(value) ?? String(value); } catch { return String(value); }
+  };
+  const send = (level, args) => parent.postMessage(
+    { source: '${PREVIEW_MESSAGE_SOURCE}', level, text: args.map(format).join(' ') }, '*');
+  for (const level of ['log', 'info', 'warn', 'error', 'debug']) {
+    const original = console[level];
+    console[level] = (...args) => { send(level, args); original.apply(console, args); };
+  }
+  addEventListener('error', (event) => send('error', ['Uncaught ' + (event.error ? format(event.error) : event.message)]));
+  addEventListener('unhandledrejection', (event) => send('error', ['Unhandled promise rejection:', event.reason]));
+})();`;
+
+const REFERENCE_ATTRIBUTES: [selector: string, attribute: string][] = [
+  ['link[href]', 'href'],
+  ['script[src]', 'src'],
+  ['img[src]', 'src'],
+  ['source[src]', 'src'],
+];
+
+function isExternal(reference: string) {
+  return /^([a-z][a-z\d+.-]*:|\/\/|#)/i.test(reference);
+}
+
+// A reference such as `100%.png` is not valid percent-encoding; it is then
+// taken to name the file as written.
+function decodeReference(reference: string) {
+  try {
+    return decodeURIComponent(reference);
+  } catch {
+    return reference;
+  }
+}
+
+// Turns the HTML file at `htmlPath` into a blob URL for an iframe. Its
+// stylesheets, scripts and images, and the url()s inside those stylesheets,
+// are pointed at blob URLs of the matching project files. Binary files, whose
+// content is already a data: URL, are used as is.
+export function buildPreview(files: Record<string, string>, htmlPath: string, binary: Set<string> = new Set()): PreviewBuild {
+  const urls = new Map<string, string | null>();
+  const created: string[] = [];
+  const missing: string[] = [];
+
+  const createUrl = (content: string, type: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    created.push(url);
+    return url;
+  };
+
+  const assetUrl = (path: string): string | null => {
+    if (urls.has(path)) return urls.get(path) ?? null;
+    const content = files[path];
+    if (content === undefined) return null;
+    // Set first so a stylesheet that imports itself does not recurse forever.
+    urls.set(path, null);
+
+    const url = binary.has(path)
+      ? content
+      : createUrl(path.endsWith('.css') ? rewriteCss(content, path) : content, mimeTypeOf(path));
+    urls.set(path, url);
+    return url;
+  };
+
+  const resolve = (from: string, reference: string): string => {
+    if (isExternal(reference)) return reference;
+    const path = resolveRelativePath(from, decodeReference(reference.split(/[?#]/)[0]));
+    const url = assetUrl(path);
+    if (!url) {
+      missing.push(`${from}: ${reference}`);
+      return reference;
+    }
+    return url;
+  };
+
+  const rewriteCss = (css: string, path: string) => css
+    .replace(/url\(\s*(['"]?)([^'")]+)\1\s*\)/g, (_match, quote, reference) => `url(${quote}${resolve(path, reference)}${quote})`)
+    .replace(/@import\s+(['"])([^'"]+)\1/g, (_match, quote, reference) => `@import ${quote}${resolve(path, reference)}${quote}`);
+
+  const document = new DOMParser().parseFromString(files[htmlPath] ?? '', 'text/html');
+  for (const [selector, attribute] of REFERENCE_ATTRIBUTES) {
+    document.querySelectorAll(selector).forEach(element => {
+      element.setAttribute(attribute, resolve(htmlPath, element.getAttribute(attribute) || ''));
+    });
+  }
+  document.querySelectorAll('style').forEach(style => {
+    style.textContent = rewriteCss(style.textContent || '', htmlPath);
+  });
+
+  const bridge = document.createElement('script');
+  bridge.textContent = CONSOLE_BRIDGE;
+  document.head.prepend(bridge);
+
+  const url = createUrl(`<!DOCTYPE html>\n${document.documentElement.outerHTML}`, 'text/html');
+  const paths = [
+    [htmlPath, url],
+    ...[...urls].filter((entry): entry is [string, string] => entry[1]?.startsWith('blob:') ?? false),
+  ];
+
+  return {
+    url,
+    missing,
+    describe: (text) => paths.reduce((result, [path, blobUrl]) => result.split(blobUrl).join(path), text),
+    revoke: () => created.forEach(blobUrl => URL.revokeObjectURL(blobUrl)),
+  };
+}
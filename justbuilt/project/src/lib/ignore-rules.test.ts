@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_IGNORES, isIgnored, parseIgnoreRules } from './ignore-rules';
+
+describe('parseIgnoreRules', () => {
+  it('skips blank lines and comments', () => {
+    expect(parseIgnoreRules('\n# build output\n  \r\n*.log\r\n')).toHaveLength(1);
+  });
+});
+
+describe('isIgnored', () => {
+  it('matches an unanchored pattern in any directory', () => {
+    const rules = parseIgnoreRules('*.log');
+    expect(isIgnored(rules, 'error.log')).toBe(true);
+    expect(isIgnored(rules, 'logs/deep/error.log')).toBe(true);
+    expect(isIgnored(rules, 'error.log.txt')).toBe(false);
+  });
+
+  it('ties a pattern with a slash to the root', () => {
+    const rules = parseIgnoreRules('/build\nsrc/*.tmp');
+    expect(isIgnored(rules, 'build/app.js')).toBe(true);
+    expect(isIgnored(rules, 'src/build/app.js')).toBe(false);
+    expect(isIgnored(rules, 'src/a.tmp')).toBe(true);
+    expect(isIgnored(rules, 'lib/src/a.tmp')).toBe(false);
+  });
+
+  it('keeps * and ? within one path segment and lets ** cross them', () => {
+    const rules = parseIgnoreRules('docs/*.md\nfile?.txt\nassets/**/*.png');
+    expect(isIgnored(rules, 'docs/a.md')).toBe(true);
+    expect(isIgnored(rules, 'docs/api/a.md')).toBe(false);
+    expect(isIgnored(rules, 'file1.txt')).toBe(true);
+    expect(isIgnored(rules, 'file10.txt')).toBe(false);
+    expect(isIgnored(rules, 'assets/logo.png')).toBe(true);
+    expect(isIgnored(rules, 'assets/img/icons/logo.png')).toBe(true);
+  });
+
+  it('applies a trailing slash to directories only', () => {
+    const rules = parseIgnoreRules('out/');
+    expect(isIgnored(rules, 'out')).toBe(false);
+    expect(isIgnored(rules, 'out', true)).toBe(true);
+    expect(isIgnored(rules, 'out/index.html')).toBe(true);
+  });
+
+  it('re-includes with ! unless a parent directory is excluded', () => {
+    const rules = parseIgnoreRules('*.env\n!example.env\nsecrets/\n!secrets/README.md');
+    expect(isIgnored(rules, 'prod.env')).toBe(true);
+    expect(isIgnored(rules, 'example.env')).toBe(false);
+    expect(isIgnored(rules, 'secrets/README.md')).toBe(true);
+  });
+
+  it('scopes rules to the directory of their .gitignore', () => {
+    const rules = parseIgnoreRules('*.gen.js\n/cache', 'packages/app');
+    expect(isIgnored(rules, 'packages/app/src/a.gen.js')).toBe(true);
+    expect(isIgnored(rules, 'packages/app/cache/x')).toBe(true);
+    expect(isIgnored(rules, 'a.gen.js')).toBe(false);
+    expect(isIgnored(rules, 'packages/lib/cache/x')).toBe(false);
+  });
+
+  it('leaves out dependencies and build output by default', () => {
+    const rules = parseIgnoreRules(DEFAULT_IGNORES.join('\n'));
+    expect(isIgnored(rules, 'node_modules/react/index.js')).toBe(true);
+    expect(isIgnored(rules, 'app/__pycache__/main.cpython-312.pyc')).toBe(true);
+    expect(isIgnored(rules, 'src/distance.js')).toBe(false);
+  });
+});
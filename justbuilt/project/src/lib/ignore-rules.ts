@@ -0,0 +1,85 @@
+// A subset of .gitignore syntax: `*`, `?` and `**` globs, `/` anchoring,
+// trailing `/` for directories only, and `!` to re-include.
+
+interface IgnoreRule {
+  // Directory of the .gitignore the rule came from ('' for the root).
+  base: string;
+  negate: boolean;
+  directoryOnly: boolean;
+  pattern: RegExp;
+}
+
+export type IgnoreRules = IgnoreRule[];
+
+// Left out of every import, as if listed in a root .gitignore.
+export const DEFAULT_IGNORES = [
+  'node_modules/',
+  '.git/',
+  '.DS_Store',
+  'dist/',
+  'build/',
+  'coverage/',
+  '.next/',
+  '.venv/',
+  '__pycache__/',
+  '*.pyc',
+];
+
+function globToRegExp(glob: string): string {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // `**/` matches any number of directories, a trailing `**` everything.
+      source += glob[i + 2] === '/' ? '(?:.*/)?' : '.*';
+      i += glob[i + 2] === '/' ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return source;
+}
+
+export function parseIgnoreRules(text: string, base = ''): IgnoreRules {
+  return text.split(/\r?\n/).flatMap(line => {
+    let pattern = line.trim();
+    if (!pattern || pattern.startsWith('#')) return [];
+
+    const negate = pattern.startsWith('!');
+    if (negate) pattern = pattern.slice(1);
+    const directoryOnly = pattern.endsWith('/');
+    pattern = pattern.replace(/\/+$/, '');
+    // A slash anywhere but the end ties the pattern to the .gitignore's directory.
+    const anchored = pattern.includes('/');
+    pattern = pattern.replace(/^\//, '');
+
+    const regExp = new RegExp(`^${anchored ? '' : '(?:.*/)?'}${globToRegExp(pattern)}$`);
+    return [{ base, negate, directoryOnly, pattern: regExp }];
+  });
+}
+
+function matches(rules: IgnoreRules, path: string, isDirectory: boolean): boolean {
+  let ignored = false;
+  for (const rule of rules) {
+    if (rule.directoryOnly && !isDirectory) continue;
+    if (rule.base && !path.startsWith(`${rule.base}/`)) continue;
+    const relative = rule.base ? path.slice(rule.base.length + 1) : path;
+    if (rule.pattern.test(relative)) ignored = !rule.negate;
+  }
+  return ignored;
+}
+
+// Whether a file is excluded, either itself or through one of its parent
+// directories. As in git, a file cannot be re-included once its directory is
+// excluded.
+export function isIgnored(rules: IgnoreRules, path: string, isDirectory = false): boolean {
+  const parts = path.split('/');
+  for (let i = 1; i < parts.length; i++) {
+    if (matches(rules, parts.slice(0, i).join('/'), true)) return true;
+  }
+  return matches(rules, path, isDirectory);
+}
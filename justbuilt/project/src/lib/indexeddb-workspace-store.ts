@@ -0,0 +1,117 @@
+import type { Workspace, WorkspaceData, WorkspaceStore, WorkspaceSummary } from './workspace-store';
+
+export type WorkspaceSource = 'local' | 'cloud';
+
+// Written on (almost) every edit and cleared once the workspace itself has
+// been saved, so a draft found at startup means the last session ended with
+// changes that never made it into a workspace.
+export interface RecoveryDraft {
+  source: WorkspaceSource;
+  workspaceId: string;
+  workspaceName: string;
+  data: WorkspaceData;
+  updatedAt: string;
+}
+
+const DB_NAME = 'just-built';
+const DB_VERSION = 1;
+const WORKSPACES = 'workspaces';
+const META = 'meta';
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export class IndexedDBWorkspaceStore implements WorkspaceStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(WORKSPACES, { keyPath: 'id' });
+        request.result.createObjectStore(META);
+      };
+      this.db = promisify(request).catch((error) => {
+        this.db = null;
+        throw new Error(`Local storage is unavailable: ${error?.message || 'IndexedDB could not be opened'}`);
+      });
+    }
+    return this.db;
+  }
+
+  private async objectStore(name: string, mode: IDBTransactionMode) {
+    const db = await this.open();
+    return db.transaction(name, mode).objectStore(name);
+  }
+
+  async list(): Promise<WorkspaceSummary[]> {
+    const store = await this.objectStore(WORKSPACES, 'readonly');
+    const workspaces: Workspace[] = await promisify(store.getAll());
+    return workspaces
+      .map(({ id, name, updatedAt }) => ({ id, name, updatedAt }))
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  async get(id: string): Promise<Workspace | null> {
+    const store = await this.objectStore(WORKSPACES, 'readonly');
+    return (await promisify(store.get(id))) ?? null;
+  }
+
+  async create(name: string, data: WorkspaceData): Promise<Workspace> {
+    const workspace: Workspace = { id: crypto.randomUUID(), name, updatedAt: new Date().toISOString(), ...data };
+    const store = await this.objectStore(WORKSPACES, 'readwrite');
+    await promisify(store.add(workspace));
+    return workspace;
+  }
+
+  async rename(id: string, name: string) {
+    await this.update(id, { name });
+  }
+
+  async save(id: string, data: WorkspaceData) {
+    await this.update(id, data);
+  }
+
+  async remove(id: string) {
+    const store = await this.objectStore(WORKSPACES, 'readwrite');
+    await promisify(store.delete(id));
+  }
+
+  private async update(id: string, changes: Partial<Workspace>) {
+    const store = await this.objectStore(WORKSPACES, 'readwrite');
+    const workspace: Workspace | undefined = await promisify(store.get(id));
+    if (!workspace) throw new Error('Workspace not found');
+    await promisify(store.put({ ...workspace, ...changes, updatedAt: new Date().toISOString() }));
+  }
+
+  async getLastOpened(): Promise<{ source: WorkspaceSource; id: string } | null> {
+    const store = await this.objectStore(META, 'readonly');
+    return (await promisify(store.get('lastOpened'))) ?? null;
+  }
+
+  async setLastOpened(source: WorkspaceSource, id: string) {
+    const store = await this.objectStore(META, 'readwrite');
+    await promisify(store.put({ source, id }, 'lastOpened'));
+  }
+
+  async loadDraft(): Promise<RecoveryDraft | null> {
+    const store = await this.objectStore(META, 'readonly');
+    return (await promisify(store.get('recovery'))) ?? null;
+  }
+
+  async saveDraft(draft: RecoveryDraft) {
+    const store = await this.objectStore(META, 'readwrite');
+    await promisify(store.put(draft, 'recovery'));
+  }
+
+  async clearDraft() {
+    const store = await this.objectStore(META, 'readwrite');
+    await promisify(store.delete('recovery'));
+  }
+}
+
+export const localWorkspaceStore = new IndexedDBWorkspaceStore();
@@ -0,0 +1,80 @@
+import type { Monaco } from '@monaco-editor/react';
+import { aiService, type AIProvider } from './ai-providers';
+import { stripCodeFence } from './code-actions';
+
+export interface CompletionSettings {
+  enabled: boolean;
+  provider: AIProvider;
+}
+
+// A request goes out once typing pauses for this long; Monaco cancels the
+// pending one on every keystroke.
+const COMPLETION_DEBOUNCE_MS = 400;
+// How much of the file either side of the cursor is sent.
+const PREFIX_CHARS = 6000;
+const SUFFIX_CHARS = 2000;
+
+type CancellationToken = Parameters<Parameters<Monaco['languages']['registerInlineCompletionsProvider']>[1]['provideInlineCompletions']>[3];
+
+// Resolves to false if `token` is cancelled before `ms` have passed.
+function pause(ms: number, token: CancellationToken): Promise<boolean> {
+  return new Promise(resolve => {
+    const timer = setTimeout(() => {
+      subscription.dispose();
+      resolve(true);
+    }, ms);
+    const subscription = token.onCancellationRequested(() => {
+      clearTimeout(timer);
+      resolve(false);
+    });
+  });
+}
+
+// Undoes what models do despite being told not to: wrap the reply in a code
+// fence, or repeat the code that follows the cursor.
+export function cleanCompletion(text: string, suffix: string): string {
+  const unfenced = stripCodeFence(text);
+  for (let length = Math.min(unfenced.length, suffix.length); length > 0; length--) {
+    const overlap = suffix.slice(0, length);
+    if (overlap.trim() && unfenced.endsWith(overlap)) return unfenced.slice(0, -length);
+  }
+  return unfenced;
+}
+
+// Shows ghost text from `settings().provider` in every editor while
+// `settings().enabled` is set. Tab accepts it all and Ctrl/Cmd+Right the next
+// word, with Monaco's own inline suggestion commands.
+export function registerInlineCompletions(monaco: Monaco, settings: () => CompletionSettings) {
+  return monaco.languages.registerInlineCompletionsProvider('*', {
+    async provideInlineCompletions(model, position, _context, token) {
+      const { enabled, provider } = settings();
+      if (!enabled || !await pause(COMPLETION_DEBOUNCE_MS, token)) return;
+
+      const offset = model.getOffsetAt(position);
+      const text = model.getValue();
+      const prefix = text.slice(Math.max(0, offset - PREFIX_CHARS), offset);
+      const suffix = text.slice(offset, offset + SUFFIX_CHARS);
+      if (!prefix.trim()) return;
+
+      const controller = new AbortController();
+      const subscription = token.onCancellationRequested(() => controller.abort());
+      try {
+        const path = model.uri.path.replace(/^\//, '');
+        const completion = cleanCompletion(await aiService.complete({ path, prefix, suffix }, provider, controller.signal), suffix);
+        if (!completion || token.isCancellationRequested) return;
+        return {
+          items: [{
+            insertText: completion,
+            range: new monaco.Range(position.lineNumber, position.column, position.lineNumber, position.column),
+          }],
+        };
+      } catch {
+        // Already logged, unless it was cancelled; there is just no suggestion.
+        return;
+      } finally {
+        subscription.dispose();
+      }
+    },
+    freeInlineCompletions() {},
+  });
+}
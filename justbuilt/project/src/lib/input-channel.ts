@@ -0,0 +1,45 @@
+// Lets a worker block on a line of input that the page collects from the user.
+// The worker waits on a SharedArrayBuffer with Atomics.wait, so this only
+// works when the page is cross-origin isolated (see the COOP/COEP headers).
+export interface InputChannel {
+  buffer: SharedArrayBuffer;
+}
+
+const WAITING = 0;
+const READY = 1;
+// Int32 state and Int32 byte length, then the UTF-8 text.
+const HEADER_BYTES = 8;
+const CAPACITY = 64 * 1024;
+
+export function createInputChannel(): InputChannel | undefined {
+  if (typeof SharedArrayBuffer === 'undefined' || !self.crossOriginIsolated) return undefined;
+  return { buffer: new SharedArrayBuffer(HEADER_BYTES + CAPACITY) };
+}
+
+// Worker side. `request` asks the page for input; this then blocks until the
+// page answers, and returns null for end of input.
+export function readInput(channel: InputChannel, request: () => void): string | null {
+  const header = new Int32Array(channel.buffer, 0, 2);
+  Atomics.store(header, 0, WAITING);
+  request();
+  Atomics.wait(header, 0, WAITING);
+
+  const length = Atomics.load(header, 1);
+  if (length < 0) return null;
+  // TextDecoder will not read from shared memory directly.
+  return new TextDecoder().decode(new Uint8Array(channel.buffer, HEADER_BYTES, length).slice());
+}
+
+// Page side. Answers the pending read with `text`, or with end of input.
+export function writeInput(channel: InputChannel, text: string | null) {
+  const header = new Int32Array(channel.buffer, 0, 2);
+  let length = -1;
+  if (text !== null) {
+    const bytes = new TextEncoder().encode(text).slice(0, CAPACITY);
+    new Uint8Array(channel.buffer, HEADER_BYTES, bytes.length).set(bytes);
+    length = bytes.length;
+  }
+  Atomics.store(header, 1, length);
+  Atomics.store(header, 0, READY);
+  Atomics.notify(header, 0);
+}
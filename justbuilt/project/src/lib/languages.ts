@@ -0,0 +1,112 @@
+// Languages a file can be shown as, by Monaco language id. The order is the
+// order of the status bar's override menu.
+export const LANGUAGES: { id: string; name: string }[] = [
+  { id: 'javascript', name: 'JavaScript' },
+  { id: 'typescript', name: 'TypeScript' },
+  { id: 'python', name: 'Python' },
+  { id: 'html', name: 'HTML' },
+  { id: 'css', name: 'CSS' },
+  { id: 'scss', name: 'SCSS' },
+  { id: 'less', name: 'Less' },
+  { id: 'json', name: 'JSON' },
+  { id: 'markdown', name: 'Markdown' },
+  { id: 'yaml', name: 'YAML' },
+  { id: 'xml', name: 'XML' },
+  { id: 'shell', name: 'Shell' },
+  { id: 'sql', name: 'SQL' },
+  { id: 'ini', name: 'INI' },
+  { id: 'dockerfile', name: 'Dockerfile' },
+  { id: 'plaintext', name: 'Plain text' },
+];
+
+const byExtension: Record<string, string> = {
+  js: 'javascript',
+  mjs: 'javascript',
+  cjs: 'javascript',
+  jsx: 'javascript',
+  ts: 'typescript',
+  mts: 'typescript',
+  cts: 'typescript',
+  tsx: 'typescript',
+  py: 'python',
+  pyw: 'python',
+  html: 'html',
+  htm: 'html',
+  css: 'css',
+  scss: 'scss',
+  less: 'less',
+  json: 'json',
+  map: 'json',
+  md: 'markdown',
+  markdown: 'markdown',
+  yml: 'yaml',
+  yaml: 'yaml',
+  xml: 'xml',
+  svg: 'xml',
+  sh: 'shell',
+  bash: 'shell',
+  zsh: 'shell',
+  sql: 'sql',
+  ini: 'ini',
+  toml: 'ini',
+  cfg: 'ini',
+  txt: 'plaintext',
+};
+
+const byFileName: Record<string, string> = {
+  dockerfile: 'dockerfile',
+  makefile: 'shell',
+  '.gitignore': 'ini',
+  '.env': 'ini',
+  '.editorconfig': 'ini',
+  '.prettierrc': 'json',
+  '.eslintrc': 'json',
+};
+
+// Interpreter named on a `#!` line, such as `/usr/bin/env python3`.
+const byInterpreter: [RegExp, string][] = [
+  [/^python/, 'python'],
+  [/^(node|deno|bun)$/, 'javascript'],
+  [/^(ts-node|tsx)$/, 'typescript'],
+  [/^(sh|bash|zsh|dash|ksh)$/, 'shell'],
+];
+
+function fromShebang(firstLine: string): string | undefined {
+  const match = /^#!\s*(\S+)(?:\s+(\S+))?/.exec(firstLine);
+  if (!match) return undefined;
+  const program = match[1].split('/').pop() || '';
+  const interpreter = program === 'env' ? match[2] || '' : program;
+  return byInterpreter.find(([pattern]) => pattern.test(interpreter))?.[1];
+}
+
+function fromContent(content: string): string | undefined {
+  const text = content.trimStart();
+  if (/^<!doctype html|^<html[\s>]/i.test(text)) return 'html';
+  if (text.startsWith('<?xml')) return 'xml';
+  if (/^[{[]/.test(text)) {
+    try {
+      JSON.parse(text);
+      return 'json';
+    } catch {
+      return undefined;
+    }
+  }
+  return undefined;
+}
+
+// Works out a file's language from its extension or name, then from a `#!`
+// line or the content itself. Unknown files are plain text.
+export function detectLanguage(path: string, content: string = ''): string {
+  const name = (path.split('/').pop() || '').toLowerCase();
+  const dot = name.lastIndexOf('.');
+  const extension = dot > 0 ? name.slice(dot + 1) : '';
+  return byFileName[name]
+    || byExtension[extension]
+    || fromShebang(content.split('\n', 1)[0])
+    || (extension ? undefined : fromContent(content))
+    || 'plaintext';
+}
+
+export function languageName(id: string): string {
+  return LANGUAGES.find(language => language.id === id)?.name ?? id;
+}
@@ -0,0 +1,215 @@
+import { resolveRelativePath } from './file-tree';
+import { ModuleSyntaxError, transformModule } from './module-transform';
+import { originalPosition, parseSourceMap, type SourceMapLines } from './source-map';
+
+export class ModuleNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ModuleNotFoundError';
+  }
+}
+
+interface LoadedModule {
+  exports: unknown;
+  loaded: boolean;
+}
+
+type ModuleExports = Record<string, unknown>;
+
+const EXTENSIONS = ['.js', '.mjs', '.cjs', '.json', '.ts', '.tsx'];
+
+// Prefixed so they cannot clash with the file's own names; see transformModule.
+const WRAPPER_PARAMS = '__mod_require, __mod_module, __mod_exports, __mod_import, __mod_importDefault, __mod_export, __mod_exportStar, __mod_importMeta';
+
+function isRelative(specifier: string) {
+  return /^\.{0,2}\//.test(specifier);
+}
+
+// Resolves a relative or root-relative specifier the way bundlers do: the
+// exact path, then with a known extension, then as a directory with an index
+// file. As in TypeScript, `./a.js` also finds `a.ts`. Bare specifiers (package
+// names) never resolve.
+export function resolveModule(paths: Set<string>, from: string, specifier: string): string | null {
+  if (!isRelative(specifier)) return null;
+
+  const path = resolveRelativePath(from, specifier);
+  const candidates = [
+    path,
+    ...(/\.[cm]?js$/.test(path) ? ['.ts', '.tsx'].map(extension => path.replace(/\.[cm]?js$/, extension)) : []),
+    ...EXTENSIONS.map(extension => path + extension),
+    ...EXTENSIONS.map(extension => `${path}/index${extension}`),
+  ];
+  return candidates.find(candidate => paths.has(candidate)) ?? null;
+}
+
+const importDefault = (module: unknown) =>
+  module && (module as ModuleExports).__esModule ? (module as ModuleExports).default : module;
+
+// Reading an export before its declaration has run (only possible through a
+// circular import) gives undefined rather than a TDZ ReferenceError, since
+// importers copy their bindings as soon as they start.
+function defineExports(target: ModuleExports, getters: Record<string, () => unknown>) {
+  for (const [name, get] of Object.entries(getters)) {
+    Object.defineProperty(target, name, {
+      enumerable: true,
+      get: () => {
+        try {
+          return get();
+        } catch (error) {
+          if (error instanceof ReferenceError) return undefined;
+          throw error;
+        }
+      },
+    });
+  }
+}
+
+function exportStar(target: ModuleExports, source: unknown) {
+  for (const name of Object.keys(source as ModuleExports)) {
+    if (name !== 'default' && !(name in target)) {
+      Object.defineProperty(target, name, { enumerable: true, get: () => (source as ModuleExports)[name] });
+    }
+  }
+}
+
+// Evaluates a project held in memory as a set of CommonJS-style modules. ES
+// module syntax is rewritten by `transformModule`; `require` works as is.
+// Each file is evaluated with a sourceURL of its own path, so stack traces
+// name project files and `formatError` can report them. Files compiled from
+// another language come with a source map, which `formatError` follows back
+// to the original lines.
+export function createModuleLoader(
+  files: Record<string, string>,
+  { onWarning, sourceMaps = {} }: { onWarning: (message: string) => void; sourceMaps?: Record<string, string> }
+) {
+  const sources = new Map(Object.entries(files));
+  const parsedSourceMaps = new Map<string, SourceMapLines | null>();
+  const paths = new Set(sources.keys());
+  const modules = new Map<string, LoadedModule>();
+  // Files currently being evaluated, outermost first.
+  const loading: string[] = [];
+  // Characters placed before each file's first line, so columns reported on
+  // line 1 can be corrected.
+  const headerLengths = new Map<string, number>();
+
+  function requireFrom(from: string) {
+    return (specifier: string, line?: number): unknown => {
+      const path = resolveModule(paths, from, String(specifier));
+      const site = line ? `${from}:${line}` : from;
+      if (!path) {
+        throw new ModuleNotFoundError(isRelative(String(specifier))
+          ? `Cannot find module '${specifier}' imported from ${site}`
+          : `Cannot find module '${specifier}' imported from ${site}. Only project files can be imported, by relative path.`);
+      }
+
+      const cached = modules.get(path);
+      if (cached) {
+        if (!cached.loaded) {
+          const cycle = [...loading.slice(loading.indexOf(path)), path].join(' -> ');
+          onWarning(`Circular import: ${cycle}. ${path} has not finished loading, so values ${site} imports from it may be undefined.`);
+        }
+        return cached.exports;
+      }
+      return instantiate(path, false).exports;
+    };
+  }
+
+  function instantiate(path: string, isEntry: boolean): LoadedModule & { result?: unknown } {
+    const module: LoadedModule = { exports: {}, loaded: false };
+    modules.set(path, module);
+    try {
+      return evaluate(path, isEntry, module);
+    } catch (error) {
+      // Later imports would otherwise get the half-built module from the cache.
+      modules.delete(path);
+      throw error;
+    }
+  }
+
+  function evaluate(path: string, isEntry: boolean, module: LoadedModule): LoadedModule & { result?: unknown } {
+    const source = sources.get(path) ?? '';
+
+    if (path.endsWith('.json')) {
+      try {
+        module.exports = JSON.parse(source);
+      } catch (error) {
+        throw new SyntaxError(`${path}: ${(error as Error).message}`);
+      }
+      module.loaded = true;
+      return module;
+    }
+
+    const { prelude, body, topLevelAwait } = transformModule(source, path);
+    if (topLevelAwait && !isEntry) {
+      throw new SyntaxError(`${path} uses top-level await, which is only supported in the entry file`);
+    }
+
+    const header = `(${topLevelAwait ? 'async ' : ''}function (${WRAPPER_PARAMS}) {${prelude}`;
+    headerLengths.set(path, header.length);
+    const factory = (0, eval)(`${header}${body}\n})\n//# sourceURL=${path}`);
+    const require = requireFrom(path);
+    const dynamicImport = (specifier: string, line?: number) => Promise.resolve().then(() => {
+      const exports = require(specifier, line) as ModuleExports;
+      return exports.__esModule ? exports : { ...exports, default: exports };
+    });
+
+    loading.push(path);
+    try {
+      const result = factory.call(module.exports, require, module, module.exports, dynamicImport,
+        importDefault, defineExports, exportStar, { url: `file:///${path}` });
+      if (result instanceof Promise) {
+        return { ...module, result: result.finally(() => { module.loaded = true; }) };
+      }
+      module.loaded = true;
+      return module;
+    } finally {
+      loading.pop();
+    }
+  }
+
+  async function run(entry: string) {
+    if (!paths.has(entry)) throw new ModuleNotFoundError(`Entry file ${entry} does not exist`);
+    await instantiate(entry, true).result;
+  }
+
+  function mapPosition(path: string, line: number, column: number) {
+    if (!sourceMaps[path]) return { line, column };
+    if (!parsedSourceMaps.has(path)) {
+      try {
+        parsedSourceMaps.set(path, parseSourceMap(sourceMaps[path]));
+      } catch {
+        parsedSourceMaps.set(path, null);
+      }
+    }
+    const map = parsedSourceMaps.get(path);
+    return (map && originalPosition(map, line, column)) ?? { line, column };
+  }
+
+  // The error's message followed by the stack frames that point into project
+  // files, with the loader's own frames left out.
+  function formatError(error: unknown): string {
+    if (!(error instanceof Error)) return String(error);
+    const summary = `${error.name}: ${error.message}`;
+    if (error instanceof ModuleSyntaxError || error instanceof ModuleNotFoundError) return summary;
+
+    const frames = (error.stack || '').split('\n').flatMap(frame => {
+      const location = /([^\s()@]+):(\d+):(\d+)\)?$/.exec(frame.trim());
+      if (!location || !paths.has(location[1])) return [];
+
+      const [, path, lineText, columnText] = location;
+      const generatedLine = Number(lineText);
+      // Frames inside the header are the file's imports, on line 1.
+      const generatedColumn = Math.max(Number(columnText) - (generatedLine === 1 ? headerLengths.get(path) ?? 0 : 0), 1);
+      const { line, column } = mapPosition(path, generatedLine, generatedColumn);
+      const name = /^\s*at (.+?) \(/.exec(frame)?.[1] ?? /^(.+?)@/.exec(frame.trim())?.[1];
+      return [name && !/(^|\.)eval$/.test(name)
+        ? `    at ${name} (${path}:${line}:${column})`
+        : `    at ${path}:${line}:${column}`];
+    });
+    return [summary, ...frames].join('\n');
+  }
+
+  return { run, formatError };
+}
+
+export type ModuleLoader = ReturnType<typeof createModuleLoader>;
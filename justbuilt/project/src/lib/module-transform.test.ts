@@ -0,0 +1,116 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { createModuleLoader } from './module-loader';
+import { ModuleSyntaxError, transformModule } from './module-transform';
+
+// Runs `files` from index.js and returns what they passed to `report`.
+async function run(files: Record<string, string>): Promise<unknown[]> {
+  const reported: unknown[] = [];
+  (globalThis as Record<string, unknown>).report = (value: unknown) => reported.push(value);
+  await createModuleLoader(files, { onWarning: () => {} }).run('index.js');
+  return reported;
+}
+
+afterEach(() => {
+  delete (globalThis as Record<string, unknown>).report;
+});
+
+describe('transformModule', () => {
+  it('hoists imports into the prelude through the loader parameters', () => {
+    const { prelude, body } = transformModule("import a, { b as c } from './a.js';\nreport(a, c);", 'index.js');
+
+    expect(prelude).toContain('var __mod_m0 = __mod_require("./a.js", 1);');
+    expect(prelude).toContain('const a = __mod_importDefault(__mod_m0), { b: c } = __mod_m0;');
+    expect(body).toBe('\nreport(a, c);');
+  });
+
+  it('exports through live getters on __mod_exports', () => {
+    const { prelude, body } = transformModule('export const a = 1;\nexport default function main() {}', 'index.js');
+
+    expect(prelude).toContain('__mod_export(__mod_exports, { a: () => a, default: () => main });');
+    expect(body).toBe('const a = 1;\nfunction main() {}');
+  });
+
+  it('keeps line numbers when a statement spanning lines is removed', () => {
+    const source = "import {\n  a,\n  b,\n} from './a.js';\nreport(a + b);";
+    const { body } = transformModule(source, 'index.js');
+
+    expect(body.split('\n')).toHaveLength(source.split('\n').length);
+    expect(body.split('\n')[4]).toBe('report(a + b);');
+  });
+
+  it('rewrites dynamic import and import.meta', () => {
+    const { body } = transformModule("import('./a.js').then(() => report(import.meta.url));", 'index.js');
+
+    expect(body).toBe("__mod_import('./a.js', 1).then(() => report(__mod_importMeta.url));");
+  });
+
+  it('flags top-level await but not await inside functions', () => {
+    expect(transformModule('await Promise.resolve();', 'index.js').topLevelAwait).toBe(true);
+    expect(transformModule('async function f() { await g(); }', 'index.js').topLevelAwait).toBe(false);
+  });
+
+  it('only provides the CommonJS names the file does not declare itself', () => {
+    expect(transformModule('module.exports = 1;', 'a.js').prelude)
+      .toBe('var require = __mod_require, module = __mod_module, exports = __mod_exports;');
+    expect(transformModule('const require = () => 1;\nfunction exports() {}', 'a.js').prelude)
+      .toBe('var module = __mod_module;');
+  });
+
+  it('reports syntax errors with the file and position', () => {
+    expect(() => transformModule('const = 1;', 'src/a.js')).toThrow(ModuleSyntaxError);
+    expect(() => transformModule('const = 1;', 'src/a.js')).toThrow('(src/a.js:1:7)');
+  });
+});
+
+describe('transformed modules', () => {
+  it('import named, default and namespace bindings', async () => {
+    expect(await run({
+      'index.js': "import add, { sub as minus } from './math.js';\nimport * as math from './math.js';\nreport([add(1, 2), minus(3, 1), math.sub(5, 4)]);",
+      'math.js': 'export default function add(a, b) { return a + b; }\nexport const sub = (a, b) => a - b;',
+    })).toEqual([[3, 2, 1]]);
+  });
+
+  it('re-export names and whole modules', async () => {
+    expect(await run({
+      'index.js': "import { one, two, nested } from './all.js';\nreport([one, two, nested.one]);",
+      'all.js': "export { one } from './one.js';\nexport * from './two.js';\nexport * as nested from './one.js';",
+      'one.js': 'export const one = 1;',
+      'two.js': 'export const two = 2;',
+    })).toEqual([[1, 2, 1]]);
+  });
+
+  it('keep exported bindings live', async () => {
+    expect(await run({
+      'index.js': "import { count, increment } from './counter.js';\nimport * as counter from './counter.js';\nincrement();\nreport([count, counter.count]);",
+      'counter.js': 'export let count = 0;\nexport function increment() { count++; }',
+    })).toEqual([[0, 1]]);
+  });
+
+  it('mix with CommonJS in both directions', async () => {
+    expect(await run({
+      'index.js': "import legacy, { named } from './legacy.js';\nconst esm = require('./esm.js');\nreport([legacy.named, named, esm.default, esm.value]);",
+      'legacy.js': 'module.exports = { named: "cjs" };',
+      'esm.js': 'export default "default";\nexport const value = 42;',
+    })).toEqual([['cjs', 'cjs', 'default', 42]]);
+  });
+
+  it('run dynamic imports and top-level await in the entry file', async () => {
+    expect(await run({
+      'index.js': "const { value } = await import('./lazy.js');\nreport(value);",
+      'lazy.js': 'export const value = "lazy";',
+    })).toEqual(['lazy']);
+  });
+
+  it('may declare the names CommonJS code is given', async () => {
+    expect(await run({
+      'index.js': "import { exports, module } from './names.js';\nconst require = (name) => name.toUpperCase();\nreport([exports, module(), require('x')]);",
+      'names.js': 'export const exports = "e";\nexport function module() { return "m"; }',
+    })).toEqual([['e', 'm', 'X']]);
+  });
+
+  it('cannot see the loader parameters under their usual names', async () => {
+    expect(await run({
+      'index.js': "const __exports = 'mine';\nvar __import = 'also mine';\nreport([__exports, __import, typeof exports]);",
+    })).toEqual([['mine', 'also mine', 'object']]);
+  });
+});
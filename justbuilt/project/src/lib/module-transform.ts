@@ -0,0 +1,237 @@
+import { parse, type Identifier, type Literal, type Node, type Pattern, type Program } from 'acorn';
+
+// A file rewritten so it can be evaluated as a function body taking the
+// loader's `__mod_` parameters. `prelude` runs first and holds the hoisted
+// imports and export getters, and makes `require`, `module` and `exports`
+// available to CommonJS code unless the file declares names of its own; it
+// goes on the same line as the function head, so line numbers in `body` match
+// the original file.
+export interface TransformedModule {
+  prelude: string;
+  body: string;
+  topLevelAwait: boolean;
+}
+
+export class ModuleSyntaxError extends Error {
+  constructor(message: string, public path: string, public line: number, public column: number) {
+    super(`${message} (${path}:${line}:${column})`);
+    this.name = 'SyntaxError';
+  }
+}
+
+type AnyNode = Node & Record<string, unknown>;
+
+const FUNCTION_TYPES = new Set(['FunctionDeclaration', 'FunctionExpression', 'ArrowFunctionExpression']);
+
+function parseProgram(source: string, path: string): { program: Program; isModule: boolean } {
+  const options = { ecmaVersion: 'latest', allowAwaitOutsideFunction: true, allowHashBang: true, locations: true } as const;
+  try {
+    return { program: parse(source, { ...options, sourceType: 'module' }), isModule: true };
+  } catch (moduleError) {
+    // Plain scripts may use sloppy-mode syntax that module code rejects.
+    try {
+      return { program: parse(source, { ...options, sourceType: 'script' }), isModule: false };
+    } catch {
+      const { message, loc } = moduleError as SyntaxError & { loc?: { line: number; column: number } };
+      throw new ModuleSyntaxError(message.replace(/ \(\d+:\d+\)$/, ''), path, loc?.line ?? 1, (loc?.column ?? 0) + 1);
+    }
+  }
+}
+
+function walk(node: unknown, visit: (node: AnyNode, functionDepth: number) => void, functionDepth = 0) {
+  if (Array.isArray(node)) {
+    node.forEach(child => walk(child, visit, functionDepth));
+    return;
+  }
+  if (!node || typeof node !== 'object' || typeof (node as AnyNode).type !== 'string') return;
+
+  const current = node as AnyNode;
+  visit(current, functionDepth);
+  const depth = FUNCTION_TYPES.has(current.type) ? functionDepth + 1 : functionDepth;
+  for (const key of Object.keys(current)) {
+    if (key !== 'loc') walk(current[key], visit, depth);
+  }
+}
+
+function patternNames(pattern: Pattern): string[] {
+  switch (pattern.type) {
+    case 'Identifier':
+      return [pattern.name];
+    case 'ObjectPattern':
+      return pattern.properties.flatMap(property =>
+        patternNames(property.type === 'RestElement' ? property.argument : property.value)
+      );
+    case 'ArrayPattern':
+      return pattern.elements.flatMap(element => element ? patternNames(element) : []);
+    case 'AssignmentPattern':
+      return patternNames(pattern.left);
+    case 'RestElement':
+      return patternNames(pattern.argument);
+    default:
+      return [];
+  }
+}
+
+// Names declared in the file's top-level scope, which the prelude must not
+// declare again.
+function topLevelNames(program: Program): Set<string> {
+  const names = new Set<string>();
+  for (const statement of program.body) {
+    if (statement.type === 'ImportDeclaration') {
+      statement.specifiers.forEach(specifier => names.add(specifier.local.name));
+      continue;
+    }
+    const declaration = statement.type === 'ExportNamedDeclaration' || statement.type === 'ExportDefaultDeclaration'
+      ? statement.declaration
+      : statement;
+    if (declaration?.type === 'VariableDeclaration') {
+      declaration.declarations.forEach(declarator => patternNames(declarator.id).forEach(name => names.add(name)));
+    } else if ((declaration?.type === 'FunctionDeclaration' || declaration?.type === 'ClassDeclaration') && declaration.id) {
+      names.add(declaration.id.name);
+    }
+  }
+  return names;
+}
+
+function nameOf(node: Identifier | Literal): string {
+  return node.type === 'Identifier' ? node.name : String(node.value);
+}
+
+function propertyKey(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+// Rewrites ES module syntax into calls the module loader provides:
+//   import x, { y as z } from './a'  ->  var __mod_m0 = __mod_require('./a', line); const x = __mod_importDefault(__mod_m0), { y: z } = __mod_m0;
+//   export const a = 1               ->  const a = 1, plus a getter for `a` on `__mod_exports`
+//   import('./a')                    ->  __mod_import('./a', line)
+// Export getters keep exported bindings live. Imported bindings are copied
+// when the importing module starts, so a binding read through a circular
+// import may stay undefined; the loader warns when that can happen.
+export function transformModule(source: string, path: string): TransformedModule {
+  const { program, isModule } = parseProgram(source, path);
+  const edits: { start: number; end: number; text: string }[] = [];
+  const getters: string[] = [];
+  const imports: string[] = [];
+  const stars: string[] = [];
+  let moduleCount = 0;
+  let topLevelAwait = false;
+  let hasModuleSyntax = false;
+
+  const lineOf = (node: Node) => node.loc?.start.line ?? 1;
+  // Replaced text keeps the newlines it covered so later lines do not move.
+  const replace = (start: number, end: number, text: string) => {
+    const newlines = source.slice(start, end).split('\n').length - 1;
+    edits.push({ start, end, text: text + '\n'.repeat(newlines) });
+  };
+  const requireModule = (specifier: Literal, node: Node) => {
+    const name = `__mod_m${moduleCount++}`;
+    imports.push(`var ${name} = __mod_require(${JSON.stringify(specifier.value)}, ${lineOf(node)});`);
+    return name;
+  };
+
+  for (const statement of program.body) {
+    switch (statement.type) {
+      case 'ImportDeclaration': {
+        hasModuleSyntax = true;
+        const module = requireModule(statement.source, statement);
+        const bindings: string[] = [];
+        const named: string[] = [];
+        for (const specifier of statement.specifiers) {
+          const imported = specifier.type === 'ImportSpecifier' ? nameOf(specifier.imported) : null;
+          if (specifier.type === 'ImportDefaultSpecifier' || imported === 'default') {
+            bindings.push(`${specifier.local.name} = __mod_importDefault(${module})`);
+          } else if (specifier.type === 'ImportNamespaceSpecifier') {
+            bindings.push(`${specifier.local.name} = ${module}`);
+          } else {
+            named.push(`${propertyKey(imported!)}: ${specifier.local.name}`);
+          }
+        }
+        if (named.length > 0) bindings.push(`{ ${named.join(', ')} } = ${module}`);
+        if (bindings.length > 0) imports.push(`const ${bindings.join(', ')};`);
+        replace(statement.start, statement.end, '');
+        break;
+      }
+      case 'ExportNamedDeclaration': {
+        hasModuleSyntax = true;
+        if (statement.declaration) {
+          const declaration = statement.declaration;
+          const names = declaration.type === 'VariableDeclaration'
+            ? declaration.declarations.flatMap(declarator => patternNames(declarator.id))
+            : [declaration.id.name];
+          names.forEach(name => getters.push(`${propertyKey(name)}: () => ${name}`));
+          replace(statement.start, declaration.start, '');
+        } else {
+          const module = statement.source ? requireModule(statement.source, statement) : null;
+          for (const specifier of statement.specifiers) {
+            const local = nameOf(specifier.local);
+            const target = !module ? local
+              : local === 'default' ? `__mod_importDefault(${module})`
+              : `${module}[${JSON.stringify(local)}]`;
+            getters.push(`${propertyKey(nameOf(specifier.exported))}: () => ${target}`);
+          }
+          replace(statement.start, statement.end, '');
+        }
+        break;
+      }
+      case 'ExportDefaultDeclaration': {
+        hasModuleSyntax = true;
+        const declaration = statement.declaration;
+        if ((declaration.type === 'FunctionDeclaration' || declaration.type === 'ClassDeclaration') && declaration.id) {
+          getters.push(`default: () => ${declaration.id.name}`);
+          replace(statement.start, declaration.start, '');
+        } else {
+          getters.push('default: () => __mod_default');
+          replace(statement.start, declaration.start, 'const __mod_default = ');
+        }
+        break;
+      }
+      case 'ExportAllDeclaration': {
+        hasModuleSyntax = true;
+        const module = requireModule(statement.source, statement);
+        if (statement.exported) {
+          getters.push(`${propertyKey(nameOf(statement.exported))}: () => ${module}`);
+        } else {
+          stars.push(`__mod_exportStar(__mod_exports, ${module});`);
+        }
+        replace(statement.start, statement.end, '');
+        break;
+      }
+    }
+  }
+
+  walk(program, (node, functionDepth) => {
+    if (node.type === 'ImportExpression') {
+      const importSource = node.source as Node;
+      replace(node.start, importSource.start, '__mod_import(');
+      replace(importSource.end, node.end, `, ${lineOf(node)})`);
+    } else if (node.type === 'MetaProperty' && (node.meta as Identifier).name === 'import') {
+      replace(node.start, node.end, '__mod_importMeta');
+    } else if (functionDepth === 0 && (node.type === 'AwaitExpression' || (node.type === 'ForOfStatement' && node.await))) {
+      topLevelAwait = true;
+    }
+  });
+
+  let body = source;
+  for (const edit of edits.sort((a, b) => b.start - a.start)) {
+    body = body.slice(0, edit.start) + edit.text + body.slice(edit.end);
+  }
+  // A leading hashbang is only valid at the very start of a file.
+  body = body.replace(/^#!.*/, '');
+
+  const declared = topLevelNames(program);
+  const commonJs = ['require', 'module', 'exports']
+    .filter(name => !declared.has(name))
+    .map(name => `${name} = __mod_${name}`);
+
+  const prelude = [
+    isModule && hasModuleSyntax ? '"use strict";' : '',
+    commonJs.length > 0 ? `var ${commonJs.join(', ')};` : '',
+    hasModuleSyntax ? 'Object.defineProperty(__mod_exports, "__esModule", { value: true });' : '',
+    getters.length > 0 ? `__mod_export(__mod_exports, { ${getters.join(', ')} });` : '',
+    ...imports,
+    ...stars,
+  ].filter(Boolean).join(' ');
+
+  return { prelude, body, topLevelAwait };
+}
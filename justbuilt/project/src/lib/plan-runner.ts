@@ -0,0 +1,47 @@
+import { contextBudget, fitContext } from './code-context';
+import { binaryPaths, fileContents, listFilePaths, type FileNode } from './file-tree';
+
+export interface Step {
+  description: string;
+  prompt: string;
+  completed: boolean;
+  // Files written the last time this step was run.
+  changedFiles?: string[];
+  error?: string;
+}
+
+export type AutopilotState = 'off' | 'running' | 'paused';
+
+// The step with the completed steps and as much of the project as fits in
+// `budget` tokens: files that do not fit in full go as outlines or excerpts,
+// and the rest, binary files included, are listed by path only.
+export function buildStepPrompt(step: Step, plan: Step[], files: FileNode[], budget = contextBudget()): string {
+  const completed = plan.filter(s => s.completed && s !== step);
+  const binary = binaryPaths(files);
+  const context = fitContext(
+    listFilePaths(files).filter(path => !binary.has(path)).map(path => ({ path, reason: 'project' as const })),
+    fileContents(files),
+    budget
+  );
+  const fileSections = context.files
+    .filter(file => file.mode !== 'omitted')
+    .map(file => {
+      const note = file.mode === 'outline' ? ' (outline)' : file.mode === 'truncated' ? ' (excerpt)' : '';
+      return `--- ${file.path}${note}\n${file.content}`;
+    });
+  const omitted = [
+    ...context.files.filter(file => file.mode === 'omitted').map(file => file.path),
+    ...binary,
+  ];
+
+  return [
+    completed.length > 0
+      ? `Steps already completed:\n${completed.map((s, i) => `${i + 1}. ${s.description}`).join('\n')}`
+      : 'No steps have been completed yet.',
+    fileSections.length > 0
+      ? `Current project files:\n${fileSections.join('\n\n')}`
+      : 'The project has no files yet.',
+    omitted.length > 0 ? `Other files, not shown: ${omitted.join(', ')}` : '',
+    `Now implement this step: ${step.description}\n${step.prompt}`,
+  ].filter(Boolean).join('\n\n');
+}
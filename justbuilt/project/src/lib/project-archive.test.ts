@@ -0,0 +1,119 @@
+import { strToU8, unzipSync, zipSync } from 'fflate';
+import { describe, expect, it } from 'vitest';
+import { fileContents, type FileNode } from './file-tree';
+import { ArchiveError, exportZip, importEntries, MAX_BINARY_FILE_BYTES, MAX_IMPORT_BYTES, readZip, type ImportEntry } from './project-archive';
+
+function entry(path: string, content: string | Uint8Array): ImportEntry {
+  const bytes = typeof content === 'string' ? strToU8(content) : content;
+  return { path, size: bytes.length, read: async () => bytes };
+}
+
+const PNG_BYTES = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00]);
+
+describe('importEntries', () => {
+  it('drops the folder every path starts with', async () => {
+    const result = await importEntries([entry('repo-main/index.js', 'a'), entry('repo-main/src/b.js', 'b')]);
+    expect(Object.keys(fileContents(result.files)).sort()).toEqual(['index.js', 'src/b.js']);
+    expect(result.imported).toBe(2);
+  });
+
+  it('follows .gitignore files and the default ignores', async () => {
+    const result = await importEntries([
+      entry('.gitignore', '*.log\n'),
+      entry('app/.gitignore', 'cache/\n'),
+      entry('app/main.js', 'main'),
+      entry('app/cache/data.json', '{}'),
+      entry('debug.log', 'noise'),
+      entry('node_modules/pkg/index.js', 'dependency'),
+    ]);
+    expect(Object.keys(fileContents(result.files)).sort()).toEqual(['.gitignore', 'app/.gitignore', 'app/main.js']);
+    expect(result.ignored).toBe(3);
+  });
+
+  it('only reads rules from files named .gitignore', async () => {
+    const result = await importEntries([entry('templates/node.gitignore', '*.js\n'), entry('index.js', 'kept')]);
+    expect(Object.keys(fileContents(result.files)).sort()).toEqual(['index.js', 'templates/node.gitignore']);
+    expect(result.ignored).toBe(0);
+  });
+
+  it('marks binary files and keeps them as data: URLs', async () => {
+    const result = await importEntries([entry('logo.png', PNG_BYTES)]);
+    expect(result.files).toEqual([{
+      name: 'logo.png',
+      type: 'file',
+      content: `data:image/png;base64,${btoa(String.fromCharCode(...PNG_BYTES))}`,
+      encoding: 'base64',
+    }]);
+  });
+
+  it('skips binary files over the per-file limit', async () => {
+    const large = new Uint8Array(MAX_BINARY_FILE_BYTES + 1);
+    const result = await importEntries([entry('video.bin', large)]);
+    expect(result.files).toEqual([]);
+    expect(result.skipped).toEqual([{ path: 'video.bin', reason: 'binary files over 1 MB are not imported' }]);
+  });
+
+  it('stops keeping files once the import limit is reached', async () => {
+    const half = { size: MAX_IMPORT_BYTES / 2 + 1, read: async () => strToU8('x') };
+    const result = await importEntries([{ path: 'a.txt', ...half }, { path: 'b.txt', ...half }]);
+    expect(Object.keys(fileContents(result.files))).toEqual(['a.txt']);
+    expect(result.skipped).toEqual([{ path: 'b.txt', reason: 'import is limited to 20 MB' }]);
+  });
+
+  it('skips a file whose path clashes with a folder', async () => {
+    const result = await importEntries([entry('src', 'file'), entry('src/index.js', 'nested'), entry('other.js', 'x')]);
+    expect(Object.keys(fileContents(result.files)).sort()).toEqual(['other.js', 'src']);
+    expect(result.skipped).toHaveLength(1);
+    expect(result.skipped[0].path).toBe('src/index.js');
+  });
+});
+
+describe('readZip', () => {
+  function zipFile(files: Record<string, Uint8Array>, name = 'project.zip') {
+    return new File([zipSync(files)], name);
+  }
+
+  it('lists the files in a zip, leaving out folders and default ignores', async () => {
+    const entries = await readZip(zipFile({
+      'src/': new Uint8Array(),
+      'src/index.js': strToU8('console.log(1);'),
+      'node_modules/pkg/index.js': strToU8('dependency'),
+    }));
+    expect(entries.map(({ path, size }) => ({ path, size }))).toEqual([{ path: 'src/index.js', size: 15 }]);
+    expect(new TextDecoder().decode(await entries[0].read())).toBe('console.log(1);');
+  });
+
+  it('refuses a zip file larger than the import limit', async () => {
+    const file = new File([new Uint8Array(MAX_IMPORT_BYTES + 1)], 'huge.zip');
+    await expect(readZip(file)).rejects.toThrow(ArchiveError);
+    await expect(readZip(file)).rejects.toThrow('huge.zip is over the 20 MB import limit');
+  });
+
+  it('does not unpack entries past the limit on their declared size', async () => {
+    // Zeros compress to almost nothing, so the zip itself is tiny.
+    const chunk = new Uint8Array(MAX_IMPORT_BYTES / 2);
+    const entries = await readZip(zipFile({ 'a.bin': chunk, 'b.bin': chunk, 'c.bin': chunk }));
+
+    expect(entries.map(({ path, size, skipped }) => ({ path, size, skipped }))).toEqual([
+      { path: 'a.bin', size: chunk.length, skipped: undefined },
+      { path: 'b.bin', size: chunk.length, skipped: undefined },
+      { path: 'c.bin', size: 0, skipped: 'import is limited to 20 MB' },
+    ]);
+  });
+});
+
+describe('exportZip', () => {
+  it('writes text as is and binary files as their bytes', async () => {
+    const nodes: FileNode[] = [
+      { name: 'src', type: 'directory', children: [{ name: 'index.js', type: 'file', content: 'main' }] },
+      { name: 'logo.png', type: 'file', content: `data:image/png;base64,${btoa(String.fromCharCode(...PNG_BYTES))}`, encoding: 'base64' },
+      // Text that merely looks like a data: URL stays text.
+      { name: 'notes.txt', type: 'file', content: 'data:text/plain;base64,aGk=' },
+    ];
+    const zip = unzipSync(new Uint8Array(await exportZip(nodes).arrayBuffer()));
+
+    expect(new TextDecoder().decode(zip['src/index.js'])).toBe('main');
+    expect(zip['logo.png']).toEqual(PNG_BYTES);
+    expect(new TextDecoder().decode(zip['notes.txt'])).toBe('data:text/plain;base64,aGk=');
+  });
+});
@@ -0,0 +1,210 @@
+import { strToU8, unzipSync, zipSync } from 'fflate';
+import { binaryPaths, fileContents, FileTreeError, writeFile, type FileNode } from './file-tree';
+import { DEFAULT_IGNORES, isIgnored, parseIgnoreRules, type IgnoreRules } from './ignore-rules';
+import { mimeTypeOf } from './mime-types';
+
+// Total size of the files kept from one import.
+export const MAX_IMPORT_BYTES = 20 * 1024 * 1024;
+// Binary files are kept as data: URLs, which cost a third more than the file.
+export const MAX_BINARY_FILE_BYTES = 1024 * 1024;
+
+// A file found in a zip, a dropped folder or a picked directory.
+export interface ImportEntry {
+  path: string;
+  size: number;
+  read: () => Promise<Uint8Array>;
+  // Why the entry cannot be imported, when that is known before reading it.
+  skipped?: string;
+}
+
+// Raised when an archive cannot be read at all, with a message fit to show.
+export class ArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArchiveError';
+  }
+}
+
+const LIMIT_REASON = `import is limited to ${MAX_IMPORT_BYTES / 1024 / 1024} MB`;
+
+export interface ImportResult {
+  files: FileNode[];
+  imported: number;
+  // Files left out by ignore rules.
+  ignored: number;
+  skipped: { path: string; reason: string }[];
+}
+
+const defaultRules = parseIgnoreRules(DEFAULT_IGNORES.join('\n'));
+
+function isBinary(bytes: Uint8Array): boolean {
+  if (bytes.subarray(0, 8000).includes(0)) return true;
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return false;
+  } catch {
+    return true;
+  }
+}
+
+function toDataUrl(bytes: Uint8Array, path: string): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:${mimeTypeOf(path, 'application/octet-stream')};base64,${btoa(binary)}`;
+}
+
+function fromDataUrl(url: string): Uint8Array {
+  const base64 = url.slice(url.indexOf(',') + 1);
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+}
+
+// Drops the folder every path starts with, such as the `repo-main/` of a
+// downloaded zip or the name of a picked directory.
+function stripCommonRoot(entries: ImportEntry[]): ImportEntry[] {
+  const roots = new Set(entries.map(entry => entry.path.split('/')[0]));
+  const [root] = roots;
+  if (roots.size !== 1 || entries.some(entry => entry.path === root)) return entries;
+  return entries.map(entry => ({ ...entry, path: entry.path.slice(root.length + 1) }));
+}
+
+export async function importEntries(found: ImportEntry[]): Promise<ImportResult> {
+  const entries = stripCommonRoot(found.map(entry => ({ ...entry, path: entry.path.replace(/^\/+/, '') })))
+    .sort((a, b) => a.path.localeCompare(b.path));
+  const result: ImportResult = { files: [], imported: 0, ignored: 0, skipped: [] };
+
+  let rules: IgnoreRules = defaultRules;
+  for (const entry of entries) {
+    const parts = entry.path.split('/');
+    if (parts.pop() === '.gitignore' && !isIgnored(rules, entry.path)) {
+      rules = [...rules, ...parseIgnoreRules(new TextDecoder().decode(await entry.read()), parts.join('/'))];
+    }
+  }
+
+  let total = 0;
+  for (const entry of entries) {
+    if (isIgnored(rules, entry.path)) {
+      result.ignored++;
+      continue;
+    }
+    if (entry.skipped || total + entry.size > MAX_IMPORT_BYTES) {
+      result.skipped.push({ path: entry.path, reason: entry.skipped ?? LIMIT_REASON });
+      continue;
+    }
+
+    const bytes = await entry.read();
+    let content: string;
+    const binary = isBinary(bytes);
+    if (!binary) {
+      content = new TextDecoder().decode(bytes);
+    } else if (bytes.length > MAX_BINARY_FILE_BYTES) {
+      result.skipped.push({ path: entry.path, reason: `binary files over ${MAX_BINARY_FILE_BYTES / 1024 / 1024} MB are not imported` });
+      continue;
+    } else {
+      content = toDataUrl(bytes, entry.path);
+    }
+
+    try {
+      result.files = writeFile(result.files, entry.path, content, binary ? 'base64' : undefined);
+    } catch (error) {
+      if (!(error instanceof FileTreeError)) throw error;
+      result.skipped.push({ path: entry.path, reason: error.message });
+      continue;
+    }
+    total += entry.size;
+    result.imported++;
+  }
+
+  return result;
+}
+
+// Every entry is decompressed at once, so the sizes the zip declares are
+// added up first and nothing past the import limit is unpacked: a zip bomb
+// would otherwise take the tab down before importEntries could refuse it.
+export async function readZip(file: File): Promise<ImportEntry[]> {
+  if (file.size > MAX_IMPORT_BYTES) {
+    throw new ArchiveError(`${file.name} is over the ${MAX_IMPORT_BYTES / 1024 / 1024} MB import limit`);
+  }
+
+  let total = 0;
+  const tooLarge: string[] = [];
+  const archive = unzipSync(new Uint8Array(await file.arrayBuffer()), {
+    // Skips decompressing what would be dropped anyway.
+    filter: (info) => {
+      if (info.name.endsWith('/') || isIgnored(defaultRules, info.name)) return false;
+      total += info.originalSize;
+      if (total > MAX_IMPORT_BYTES) tooLarge.push(info.name);
+      return total <= MAX_IMPORT_BYTES;
+    },
+  });
+  return [
+    ...Object.entries(archive).map(([path, bytes]) => ({
+      path,
+      size: bytes.length,
+      read: async () => bytes,
+    })),
+    ...tooLarge.map(path => ({
+      path,
+      size: 0,
+      read: async () => new Uint8Array(),
+      skipped: LIMIT_REASON,
+    })),
+  ];
+}
+
+// Files from an <input webkitdirectory>, which carry their path in the folder.
+export function readFileList(files: FileList): ImportEntry[] {
+  return Array.from(files).map(file => ({
+    path: file.webkitRelativePath || file.name,
+    size: file.size,
+    read: async () => new Uint8Array(await file.arrayBuffer()),
+  }));
+}
+
+function readDirectory(reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> {
+  return new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+}
+
+async function collectEntries(entry: FileSystemEntry, found: ImportEntry[]) {
+  const path = entry.fullPath.replace(/^\//, '');
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    found.push({ path, size: file.size, read: async () => new Uint8Array(await file.arrayBuffer()) });
+    return;
+  }
+  // Not descending into node_modules and the like saves a lot of time.
+  if (isIgnored(defaultRules, path, true)) return;
+
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  // readEntries returns at most 100 entries per call.
+  for (let batch = await readDirectory(reader); batch.length > 0; batch = await readDirectory(reader)) {
+    for (const child of batch) await collectEntries(child, found);
+  }
+}
+
+// Files dropped onto the page: folders, loose files, or a single zip.
+export async function readDroppedItems(items: DataTransferItemList): Promise<ImportEntry[]> {
+  const entries = Array.from(items)
+    .map(item => item.webkitGetAsEntry())
+    .filter((entry): entry is FileSystemEntry => entry !== null);
+
+  if (entries.length === 1 && entries[0].isFile && entries[0].name.endsWith('.zip')) {
+    const zip = await new Promise<File>((resolve, reject) => (entries[0] as FileSystemFileEntry).file(resolve, reject));
+    return readZip(zip);
+  }
+
+  const found: ImportEntry[] = [];
+  for (const entry of entries) await collectEntries(entry, found);
+  return found;
+}
+
+// A zip with the same layout as the file tree. Binary files are written back
+// as the bytes their data: URLs hold.
+export function exportZip(nodes: FileNode[]): Blob {
+  const binary = binaryPaths(nodes);
+  const entries = Object.entries(fileContents(nodes)).map(([path, content]) =>
+    [path, binary.has(path) ? fromDataUrl(content) : strToU8(content)] as const
+  );
+  return new Blob([zipSync(Object.fromEntries(entries))], { type: 'application/zip' });
+}
@@ -0,0 +1,168 @@
+import { describe, expect, it } from 'vitest';
+import { parseProjectFile, pickOpenFile, PROJECT_FILE_VERSION, ProjectFileError, serializeProjectFile } from './project-file';
+import type { WorkspaceData } from './workspace-store';
+
+const PNG_URL = 'data:image/png;base64,iVBORw0KGgo=';
+
+// The issues parseProjectFile reports for `value`.
+function issuesOf(value: unknown): string[] {
+  try {
+    parseProjectFile(JSON.stringify(value));
+  } catch (error) {
+    if (error instanceof ProjectFileError) return error.issues;
+    throw error;
+  }
+  return [];
+}
+
+describe('parseProjectFile', () => {
+  it('round-trips what serializeProjectFile writes', () => {
+    const data: WorkspaceData = {
+      files: [
+        { name: 'src', type: 'directory', children: [{ name: 'index.ts', type: 'file', content: 'export {};' }] },
+        { name: 'logo.png', type: 'file', content: PNG_URL, encoding: 'base64' },
+      ],
+      settings: { theme: 'vs-light', mainFile: 'src/index.ts', languages: { 'src/index.ts': 'typescript' }, completions: { enabled: true, provider: 'mock' } },
+      developmentPlan: [{ description: 'Start', prompt: 'Create index.ts', completed: true, changedFiles: ['src/index.ts'] }],
+    };
+
+    expect(parseProjectFile(serializeProjectFile(data, 'src/index.ts'))).toEqual({
+      version: PROJECT_FILE_VERSION,
+      files: data.files,
+      settings: data.settings,
+      developmentPlan: [{ description: 'Start', prompt: 'Create index.ts', completed: true }],
+      openFile: 'src/index.ts',
+    });
+  });
+
+  it('migrates a version 1 file, which has no version, plan or language overrides', () => {
+    const project = parseProjectFile(JSON.stringify({
+      files: [{ name: 'main.py', type: 'file', content: 'print(1)' }],
+      settings: { theme: 'vs-dark', language: 'python' },
+    }));
+
+    expect(project).toEqual({
+      version: 4,
+      files: [{ name: 'main.py', type: 'file', content: 'print(1)' }],
+      settings: { theme: 'vs-dark' },
+      developmentPlan: [],
+      openFile: undefined,
+    });
+  });
+
+  it('gives a version 1 file without settings the defaults', () => {
+    expect(parseProjectFile(JSON.stringify({ files: [] })).settings).toEqual({ theme: 'vs-dark' });
+  });
+
+  it('drops the project-wide language of a version 2 file', () => {
+    const project = parseProjectFile(JSON.stringify({
+      version: 2,
+      files: [],
+      settings: { theme: 'vs-dark', language: 'javascript' },
+      developmentPlan: [{ description: 'Start', prompt: 'Go', completed: false }],
+    }));
+
+    expect(project.settings).toEqual({ theme: 'vs-dark' });
+    expect(project.developmentPlan).toEqual([{ description: 'Start', prompt: 'Go', completed: false }]);
+  });
+
+  it('marks the data: URL files of a version 3 file as binary, at any depth', () => {
+    const project = parseProjectFile(JSON.stringify({
+      version: 3,
+      files: [
+        { name: 'assets', type: 'directory', children: [{ name: 'logo.png', type: 'file', content: PNG_URL }] },
+        { name: 'notes.md', type: 'file', content: `The logo is ${PNG_URL}` },
+        { name: 'url.txt', type: 'file', content: 'data:text/plain,not base64' },
+      ],
+      settings: { theme: 'vs-dark' },
+      developmentPlan: [],
+    }));
+
+    expect(project.files).toEqual([
+      { name: 'assets', type: 'directory', children: [{ name: 'logo.png', type: 'file', content: PNG_URL, encoding: 'base64' }] },
+      { name: 'notes.md', type: 'file', content: `The logo is ${PNG_URL}` },
+      { name: 'url.txt', type: 'file', content: 'data:text/plain,not base64' },
+    ]);
+  });
+
+  it('drops a main file and language overrides for files that do not exist', () => {
+    const project = parseProjectFile(JSON.stringify({
+      version: 4,
+      files: [{ name: 'a.js', type: 'file', content: '' }],
+      settings: { theme: 'vs-dark', mainFile: 'missing.js', languages: { 'a.js': 'typescript', 'missing.js': 'python' } },
+      developmentPlan: [],
+    }));
+
+    expect(project.settings).toEqual({ theme: 'vs-dark', languages: { 'a.js': 'typescript' } });
+  });
+
+  it('fills in a missing step prompt from its description', () => {
+    const project = parseProjectFile(JSON.stringify({
+      version: 4,
+      files: [],
+      settings: { theme: 'vs-dark' },
+      developmentPlan: [{ description: 'Add tests', completed: 'yes' }],
+    }));
+
+    expect(project.developmentPlan).toEqual([{ description: 'Add tests', prompt: 'Add tests', completed: false }]);
+  });
+
+  it('rejects text that is not a JSON object', () => {
+    expect(() => parseProjectFile('{')).toThrow(/^Invalid project file: not valid JSON/);
+    expect(() => parseProjectFile('[]')).toThrow('Invalid project file: the file must contain a JSON object');
+  });
+
+  it('rejects versions it does not know', () => {
+    expect(issuesOf({ version: 0, files: [] })).toEqual(['version must be a positive whole number']);
+    expect(issuesOf({ version: '4', files: [] })).toEqual(['version must be a positive whole number']);
+    expect(issuesOf({ version: 5, files: [] })).toEqual([
+      'version 5 is newer than this app supports (4); update the app to import it',
+    ]);
+  });
+
+  it('lists every problem at once', () => {
+    expect(issuesOf({
+      version: 4,
+      files: [
+        { name: 'a/b.js', type: 'file' },
+        { name: 'c.js', type: 'file', content: 1 },
+        { name: 'd.png', type: 'file', content: '', encoding: 'hex' },
+        { name: 'e', type: 'link' },
+        { name: 'f.js', type: 'file' },
+        { name: 'f.js', type: 'file' },
+      ],
+      settings: { theme: 1, languages: { 'f.js': 2 }, completions: { enabled: 'yes' } },
+      developmentPlan: [{ prompt: 'no description' }],
+      openFile: 3,
+    })).toEqual([
+      'files[0].name must be a file name without slashes',
+      'files[1].content must be a string',
+      'files[2].encoding must be "base64" if present',
+      'files[3].type must be "file" or "directory"',
+      'files[5].name "f.js" appears twice in the same directory',
+      'settings.theme must be a string',
+      'settings.languages must map file paths to language ids',
+      'settings.completions must be { enabled: boolean, provider: string }',
+      'developmentPlan[0] must be an object with a string description',
+      'openFile must be a string',
+    ]);
+  });
+});
+
+describe('pickOpenFile', () => {
+  const files = [
+    { name: 'README.md', type: 'file' as const, content: '' },
+    { name: 'src', type: 'directory' as const, children: [{ name: 'index.js', type: 'file' as const, content: '' }] },
+  ];
+
+  it('prefers the requested file, then the main file, then a known entry point', () => {
+    expect(pickOpenFile(files, 'README.md', 'src/index.js')).toBe('README.md');
+    expect(pickOpenFile(files, 'missing.js', 'README.md')).toBe('README.md');
+    expect(pickOpenFile(files)).toBe('src/index.js');
+  });
+
+  it('falls back to the first file, or nothing', () => {
+    expect(pickOpenFile([{ name: 'z.txt', type: 'file', content: '' }])).toBe('z.txt');
+    expect(pickOpenFile([])).toBe('');
+  });
+});
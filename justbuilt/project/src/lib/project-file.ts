@@ -0,0 +1,234 @@
+// The project file format, written by "Export project file" and read by
+// Import. Version 4:
+//
+//   {
+//     "version": 4,
+//     "files": FileNode[],          // { name, type: "file" | "directory", content?, encoding?, children? }
+//                                   // encoding "base64" marks a binary file held as a data: URL
+//     "settings": {
+//       "theme": string,
+//       "mainFile"?: string,        // file Run starts from
+//       "languages"?: { [path]: string },  // per-file language overrides
+//       "completions"?: { "enabled": boolean, "provider": string }  // inline AI completions
+//     },
+//     "developmentPlan": Step[],    // { description, prompt, completed }
+//     "openFile"?: string           // path of the file open in the editor
+//   }
+//
+// Version 3 files do not mark binary files. Version 2 files have one "language"
+// setting for the whole project. Version 1 files have no "version" field, and
+// only "files" and "settings".
+// Older versions are migrated forward one step at a time on import.
+import { findNode, listFilePaths, type FileNode } from './file-tree';
+import type { Step } from './plan-runner';
+import type { WorkspaceData, WorkspaceSettings } from './workspace-store';
+
+export const PROJECT_FILE_VERSION = 4;
+
+export interface ProjectFile extends WorkspaceData {
+  version: typeof PROJECT_FILE_VERSION;
+  openFile?: string;
+}
+
+export class ProjectFileError extends Error {
+  constructor(public issues: string[]) {
+    super(`Invalid project file: ${issues.join('; ')}`);
+    this.name = 'ProjectFileError';
+  }
+}
+
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Each migration takes a project of version n to version n + 1.
+const migrations: Record<number, (project: Json) => Json> = {
+  1: (project) => ({
+    ...project,
+    version: 2,
+    developmentPlan: [],
+    settings: isObject(project.settings) ? project.settings : {},
+  }),
+  // Languages are detected per file now, so the project-wide one is dropped.
+  2: (project) => {
+    const settings = { ...(isObject(project.settings) ? project.settings : {}) };
+    delete settings.language;
+    return { ...project, version: 3, settings };
+  },
+  // Binary files were told apart by their content; a file holding nothing but
+  // a base64 data: URL is taken to be one.
+  3: (project) => ({ ...project, version: 4, files: markDataUrls(project.files) }),
+};
+
+function markDataUrls(nodes: unknown): unknown {
+  if (!Array.isArray(nodes)) return nodes;
+  return nodes.map(node => {
+    if (!isObject(node)) return node;
+    if (node.type === 'directory') return { ...node, children: markDataUrls(node.children) };
+    return typeof node.content === 'string' && /^data:[\w.+-]+\/[\w.+-]+;base64,[A-Za-z0-9+/]*={0,2}$/.test(node.content)
+      ? { ...node, encoding: 'base64' }
+      : node;
+  });
+}
+
+function validateNodes(value: unknown, path: string, issues: string[]): FileNode[] {
+  if (!Array.isArray(value)) {
+    issues.push(`${path} must be an array`);
+    return [];
+  }
+
+  const names = new Set<string>();
+  return value.flatMap((node, index): FileNode[] => {
+    const at = `${path}[${index}]`;
+    if (!isObject(node)) {
+      issues.push(`${at} must be an object`);
+      return [];
+    }
+    if (typeof node.name !== 'string' || !node.name || node.name.includes('/')) {
+      issues.push(`${at}.name must be a file name without slashes`);
+      return [];
+    }
+    if (names.has(node.name)) {
+      issues.push(`${at}.name "${node.name}" appears twice in the same directory`);
+      return [];
+    }
+    names.add(node.name);
+
+    if (node.type === 'file') {
+      if (node.content !== undefined && typeof node.content !== 'string') {
+        issues.push(`${at}.content must be a string`);
+        return [];
+      }
+      if (node.encoding !== undefined && node.encoding !== 'base64') {
+        issues.push(`${at}.encoding must be "base64" if present`);
+        return [];
+      }
+      return [node.encoding === 'base64'
+        ? { name: node.name, type: 'file', content: node.content ?? '', encoding: 'base64' }
+        : { name: node.name, type: 'file', content: node.content ?? '' }];
+    }
+    if (node.type === 'directory') {
+      return [{ name: node.name, type: 'directory', children: validateNodes(node.children ?? [], `${at}.children`, issues) }];
+    }
+    issues.push(`${at}.type must be "file" or "directory"`);
+    return [];
+  });
+}
+
+function validateSettings(value: unknown, issues: string[]): WorkspaceSettings {
+  const settings: WorkspaceSettings = { theme: 'vs-dark' };
+  if (!isObject(value)) {
+    issues.push('settings must be an object');
+    return settings;
+  }
+  for (const key of ['theme', 'mainFile'] as const) {
+    if (value[key] === undefined) continue;
+    if (typeof value[key] === 'string') settings[key] = value[key] as string;
+    else issues.push(`settings.${key} must be a string`);
+  }
+  if (value.languages !== undefined) {
+    if (isObject(value.languages) && Object.values(value.languages).every(id => typeof id === 'string')) {
+      settings.languages = value.languages as Record<string, string>;
+    } else {
+      issues.push('settings.languages must map file paths to language ids');
+    }
+  }
+  if (value.completions !== undefined) {
+    const completions = value.completions;
+    if (isObject(completions) && typeof completions.enabled === 'boolean' && typeof completions.provider === 'string') {
+      settings.completions = { enabled: completions.enabled, provider: completions.provider };
+    } else {
+      issues.push('settings.completions must be { enabled: boolean, provider: string }');
+    }
+  }
+  return settings;
+}
+
+function validatePlan(value: unknown, issues: string[]): Step[] {
+  if (!Array.isArray(value)) {
+    issues.push('developmentPlan must be an array');
+    return [];
+  }
+  return value.flatMap((step, index) => {
+    const at = `developmentPlan[${index}]`;
+    if (!isObject(step) || typeof step.description !== 'string') {
+      issues.push(`${at} must be an object with a string description`);
+      return [];
+    }
+    return [{
+      description: step.description,
+      prompt: typeof step.prompt === 'string' ? step.prompt : step.description,
+      completed: step.completed === true,
+    }];
+  });
+}
+
+// Parses, migrates and validates a project file. Throws ProjectFileError
+// listing every problem found, so they can all be fixed in one go.
+export function parseProjectFile(text: string): ProjectFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new ProjectFileError([`not valid JSON (${(error as Error).message})`]);
+  }
+  if (!isObject(data)) throw new ProjectFileError(['the file must contain a JSON object']);
+
+  let project = data;
+  let version = project.version === undefined ? 1 : project.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new ProjectFileError(['version must be a positive whole number']);
+  }
+  if (version > PROJECT_FILE_VERSION) {
+    throw new ProjectFileError([`version ${version} is newer than this app supports (${PROJECT_FILE_VERSION}); update the app to import it`]);
+  }
+  while (version < PROJECT_FILE_VERSION) {
+    project = migrations[version](project);
+    version++;
+  }
+
+  const issues: string[] = [];
+  const files = validateNodes(project.files, 'files', issues);
+  const settings = validateSettings(project.settings, issues);
+  const developmentPlan = validatePlan(project.developmentPlan, issues);
+  if (project.openFile !== undefined && typeof project.openFile !== 'string') {
+    issues.push('openFile must be a string');
+  }
+  if (issues.length > 0) throw new ProjectFileError(issues);
+
+  if (settings.mainFile && findNode(files, settings.mainFile)?.type !== 'file') {
+    delete settings.mainFile;
+  }
+  if (settings.languages) {
+    settings.languages = Object.fromEntries(
+      Object.entries(settings.languages).filter(([path]) => findNode(files, path)?.type === 'file')
+    );
+  }
+  return {
+    version: PROJECT_FILE_VERSION,
+    files,
+    settings,
+    developmentPlan,
+    openFile: typeof project.openFile === 'string' ? project.openFile : undefined,
+  };
+}
+
+export function serializeProjectFile(data: WorkspaceData, openFile?: string): string {
+  const project: ProjectFile = {
+    version: PROJECT_FILE_VERSION,
+    files: data.files,
+    settings: data.settings,
+    developmentPlan: data.developmentPlan.map(({ description, prompt, completed }) => ({ description, prompt, completed })),
+    openFile,
+  };
+  return JSON.stringify(project, null, 2);
+}
+
+// The file to open after loading a project: `preferred` if it exists, else
+// the main file, else a conventional entry point, else the first file.
+export function pickOpenFile(files: FileNode[], preferred?: string, mainFile?: string): string {
+  const paths = listFilePaths(files);
+  const candidates = [preferred, mainFile, 'src/index.js', 'src/index.ts', 'src/main.ts', 'index.html', 'main.py', 'README.md'];
+  return candidates.find(path => path && paths.includes(path)) || paths[0] || '';
+}
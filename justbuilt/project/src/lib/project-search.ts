@@ -0,0 +1,164 @@
+import { binaryPaths, fileContents, type FileNode } from './file-tree';
+import { isIgnored, parseIgnoreRules } from './ignore-rules';
+
+export interface SearchQuery {
+  text: string;
+  caseSensitive: boolean;
+  wholeWord: boolean;
+  regex: boolean;
+  // Comma-separated globs in .gitignore syntax, such as `src/, *.ts`.
+  include: string;
+  exclude: string;
+}
+
+export interface SearchMatch {
+  // One-based, like the editor's.
+  line: number;
+  column: number;
+  length: number;
+  // The line the match is on, cut down around the match when it is long.
+  preview: string;
+  previewOffset: number;
+  // What the match would be replaced with, when searching with a replacement.
+  replacement?: string;
+}
+
+export interface FileMatches {
+  path: string;
+  matches: SearchMatch[];
+}
+
+export interface SearchResult {
+  files: FileMatches[];
+  // Set when the search stopped at MAX_SEARCH_MATCHES.
+  truncated: boolean;
+}
+
+export interface ReplaceChange {
+  path: string;
+  before: string;
+  after: string;
+  count: number;
+}
+
+// Keeps the results list responsive on big projects.
+export const MAX_SEARCH_MATCHES = 2000;
+const PREVIEW_CONTEXT = 40;
+
+export class SearchQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SearchQueryError';
+  }
+}
+
+function globRules(globs: string) {
+  return parseIgnoreRules(globs.split(',').map(glob => glob.trim()).join('\n'));
+}
+
+// Paths and contents of the text files the query covers. Binary files are
+// never searched.
+function searchedFiles(nodes: FileNode[], query: SearchQuery): [string, string][] {
+  const include = globRules(query.include);
+  const exclude = globRules(query.exclude);
+  const binary = binaryPaths(nodes);
+  return Object.entries(fileContents(nodes)).filter(([path]) =>
+    !binary.has(path)
+    && (include.length === 0 || isIgnored(include, path))
+    && !isIgnored(exclude, path)
+  );
+}
+
+function buildMatcher(query: SearchQuery): RegExp {
+  let source = query.regex ? query.text : query.text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  if (query.wholeWord) source = `\\b(?:${source})\\b`;
+  try {
+    return new RegExp(source, query.caseSensitive ? 'gm' : 'gim');
+  } catch (error) {
+    throw new SearchQueryError((error as Error).message);
+  }
+}
+
+function lineStarts(content: string): number[] {
+  const starts = [0];
+  for (let i = content.indexOf('\n'); i !== -1; i = content.indexOf('\n', i + 1)) starts.push(i + 1);
+  return starts;
+}
+
+// Expands `$&`, `$1` and `$<name>` in a regex replacement, as String.replace does.
+function expandReplacement(replacement: string, match: RegExpMatchArray): string {
+  return replacement.replace(/\$(\$|&|[1-9]\d?|<([^>]*)>)/g, (token, what: string, name?: string) => {
+    if (what === '$') return '$';
+    if (what === '&') return match[0];
+    if (name !== undefined) return match.groups?.[name] ?? '';
+    return match[Number(what)] ?? token;
+  });
+}
+
+function replacementFor(match: RegExpMatchArray, query: SearchQuery, replacement: string): string {
+  return query.regex ? expandReplacement(replacement, match) : replacement;
+}
+
+function findMatches(content: string, matcher: RegExp, limit: number, query: SearchQuery, replacement?: string): SearchMatch[] {
+  const starts = lineStarts(content);
+  const matches: SearchMatch[] = [];
+  let line = 0;
+  for (const match of content.matchAll(matcher)) {
+    // Empty matches, as from `^` or `a*`, find nothing worth showing.
+    if (match[0].length === 0) continue;
+    const index = match.index ?? 0;
+    while (line + 1 < starts.length && starts[line + 1] <= index) line++;
+
+    const lineText = content.slice(starts[line], (starts[line + 1] ?? content.length + 1) - 1).replace(/\r$/, '');
+    const column = index - starts[line];
+    const previewOffset = Math.max(0, column - PREVIEW_CONTEXT);
+    matches.push({
+      line: line + 1,
+      column: column + 1,
+      length: Math.min(match[0].length, lineText.length - column),
+      preview: lineText.slice(previewOffset, column + match[0].length + PREVIEW_CONTEXT * 2),
+      previewOffset,
+      replacement: replacement === undefined ? undefined : replacementFor(match, query, replacement),
+    });
+    if (matches.length >= limit) break;
+  }
+  return matches;
+}
+
+export function searchFiles(nodes: FileNode[], query: SearchQuery, replacement?: string): SearchResult {
+  const result: SearchResult = { files: [], truncated: false };
+  if (!query.text) return result;
+
+  const matcher = buildMatcher(query);
+  let remaining = MAX_SEARCH_MATCHES;
+  for (const [path, content] of searchedFiles(nodes, query)) {
+    const matches = findMatches(content, matcher, remaining, query, replacement);
+    if (matches.length === 0) continue;
+    result.files.push({ path, matches });
+    remaining -= matches.length;
+    if (remaining === 0) {
+      result.truncated = true;
+      break;
+    }
+  }
+  return result;
+}
+
+// What replacing every match would do to each file, without changing anything.
+export function planReplace(nodes: FileNode[], query: SearchQuery, replacement: string): ReplaceChange[] {
+  if (!query.text) return [];
+  const matcher = buildMatcher(query);
+  return searchedFiles(nodes, query).flatMap(([path, content]) => {
+    let after = '';
+    let last = 0;
+    let count = 0;
+    for (const match of content.matchAll(matcher)) {
+      if (match[0].length === 0) continue;
+      const index = match.index ?? 0;
+      after += content.slice(last, index) + replacementFor(match, query, replacement);
+      last = index + match[0].length;
+      count++;
+    }
+    return count > 0 ? [{ path, before: content, after: after + content.slice(last), count }] : [];
+  });
+}
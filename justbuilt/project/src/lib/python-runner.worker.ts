@@ -0,0 +1,95 @@
+// Runs a Python project with Pyodide, the CPython WebAssembly build. Pyodide's
+// files ship with the app (see vite.config.ts), so nothing is fetched from a
+// CDN. The project is written to /project in Pyodide's in-memory file system,
+// which is what makes `import` of other project files work.
+import { loadPyodide } from 'pyodide';
+import type { RunnerEvent, RunnerRequest } from './code-runner';
+import { readInput, type InputChannel } from './input-channel';
+
+const scope = self as unknown as {
+  postMessage(message: RunnerEvent): void;
+  addEventListener(type: 'message', listener: (event: MessageEvent<RunnerRequest>) => void): void;
+};
+
+const post = (event: RunnerEvent) => scope.postMessage(event);
+
+const ROOT = '/project';
+
+// Runs the entry file as __main__ and returns a traceback trimmed to project
+// frames, or None when it finished normally.
+const DRIVER = `
+import builtins, os, runpy, sys, traceback
+from _runner import read_input
+
+ROOT = ${JSON.stringify(ROOT)}
+
+def _input(prompt=''):
+    line = read_input(str(prompt))
+    if line is None:
+        raise EOFError('EOF when reading a line')
+    return line
+
+def run(entry):
+    builtins.input = _input
+    sys.path.insert(0, os.path.dirname(entry))
+    try:
+        runpy.run_path(entry, run_name='__main__')
+    except SystemExit as error:
+        if error.code not in (None, 0):
+            return f'SystemExit: {error.code}'
+    except BaseException as error:
+        frames = [frame for frame in traceback.extract_tb(error.__traceback__) if frame.filename.startswith(ROOT + '/')]
+        text = 'Traceback (most recent call last):\\n'
+        text += ''.join(traceback.StackSummary.from_list(frames).format())
+        text += ''.join(traceback.format_exception_only(type(error), error))
+        return text.replace(ROOT + '/', '').rstrip()
+    finally:
+        sys.stdout.flush()
+        sys.stderr.flush()
+    return None
+`;
+
+scope.addEventListener('message', async (event) => {
+  const request = event.data;
+  if (request.type !== 'run') return;
+
+  let pyodide: Awaited<ReturnType<typeof loadPyodide>>;
+  try {
+    pyodide = await loadPyodide();
+  } catch (error) {
+    post({ type: 'error', kind: 'uncaught', text: `Could not load Python: ${error instanceof Error ? error.message : error}` });
+    post({ type: 'idle' });
+    return;
+  }
+  pyodide.setStdout({ batched: (text) => post({ type: 'console', level: 'log', text }) });
+  pyodide.setStderr({ batched: (text) => post({ type: 'console', level: 'error', text }) });
+
+  const channel: InputChannel | undefined = request.input;
+  const read = (prompt: string): string | null => {
+    if (channel) return readInput(channel, () => post({ type: 'input', prompt }));
+    post({ type: 'console', level: 'warn', text: 'input() is unavailable because the page is not cross-origin isolated.' });
+    return null;
+  };
+  pyodide.registerJsModule('_runner', { read_input: read });
+  pyodide.setStdin({ stdin: () => read('') ?? undefined });
+
+  for (const [path, content] of Object.entries(request.files)) {
+    const absolute = `${ROOT}/${path}`;
+    pyodide.FS.mkdirTree(absolute.slice(0, absolute.lastIndexOf('/')));
+    pyodide.FS.writeFile(absolute, content);
+  }
+  pyodide.FS.chdir(ROOT);
+
+  post({ type: 'started' });
+  pyodide.runPython(DRIVER);
+  const run = pyodide.globals.get('run');
+  try {
+    const traceback: string | undefined = run(`${ROOT}/${request.entry}`);
+    if (traceback) post({ type: 'console', level: 'error', text: traceback });
+  } catch (error) {
+    post({ type: 'error', kind: 'uncaught', text: error instanceof Error ? error.message : String(error) });
+  } finally {
+    run.destroy();
+  }
+  post({ type: 'idle' });
+});
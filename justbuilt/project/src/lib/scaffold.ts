@@ -0,0 +1,88 @@
+import type { FileStructure } from './ai-providers';
+import type { FileNode } from './file-tree';
+
+export type ConflictResolution = 'keep' | 'overwrite';
+
+export type ScaffoldStatus = 'pending' | 'generating' | 'done' | 'failed' | 'skipped';
+
+export interface ScaffoldJob {
+  path: string;
+  status: ScaffoldStatus;
+  error?: string;
+}
+
+export interface StructureConflict {
+  path: string;
+  // 'exists': a file is already there. 'type': a file and a directory share the name.
+  reason: 'exists' | 'type';
+}
+
+export function findConflicts(files: FileNode[], structure: FileStructure[], parent: string = ''): StructureConflict[] {
+  return structure.flatMap(item => {
+    const path = parent ? `${parent}/${item.name}` : item.name;
+    const existing = files.find(node => node.name === item.name);
+    if (!existing) return [];
+    if (existing.type !== item.type) return [{ path, reason: 'type' as const }];
+    if (item.type === 'file') return [{ path, reason: 'exists' as const }];
+    return findConflicts(existing.children || [], item.children || [], path);
+  });
+}
+
+// Merges the generated structure into the project tree. New files are created
+// empty and queued for generation; existing files are either kept (and marked
+// skipped) or queued to be regenerated. A name that is a file on one side and
+// a directory on the other is never touched.
+export function mergeStructure(
+  files: FileNode[],
+  structure: FileStructure[],
+  resolution: ConflictResolution,
+  parent: string = ''
+): { files: FileNode[]; jobs: ScaffoldJob[] } {
+  const merged = [...files];
+  const jobs: ScaffoldJob[] = [];
+
+  for (const item of structure) {
+    const path = parent ? `${parent}/${item.name}` : item.name;
+    const index = merged.findIndex(node => node.name === item.name);
+    const existing = index === -1 ? undefined : merged[index];
+
+    if (existing && existing.type !== item.type) {
+      jobs.push({ path, status: 'skipped', error: 'A file and a directory share this name' });
+      continue;
+    }
+
+    if (item.type === 'directory') {
+      const result = mergeStructure(existing?.children || [], item.children || [], resolution, path);
+      const node: FileNode = { name: item.name, type: 'directory', children: result.files };
+      if (existing) {
+        merged[index] = node;
+      } else {
+        merged.push(node);
+      }
+      jobs.push(...result.jobs);
+    } else if (!existing) {
+      merged.push({ name: item.name, type: 'file', content: '' });
+      jobs.push({ path, status: 'pending' });
+    } else if (resolution === 'overwrite') {
+      jobs.push({ path, status: 'pending' });
+    } else {
+      jobs.push({ path, status: 'skipped' });
+    }
+  }
+
+  return { files: merged, jobs };
+}
+
+export function buildFilePrompt(requirements: string, path: string, allPaths: string[]): string {
+  const directory = path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+  const siblings = allPaths.filter(other =>
+    other !== path && (other.includes('/') ? other.slice(0, other.lastIndexOf('/')) : '') === directory
+  );
+
+  return [
+    `Project requirements: ${requirements}`,
+    `Project files:\n${allPaths.map(p => `- ${p}`).join('\n')}`,
+    siblings.length > 0 ? `Files in the same directory: ${siblings.join(', ')}` : '',
+    `Write the complete contents of ${path}. It must work with the other files listed above.`,
+  ].filter(Boolean).join('\n\n');
+}
@@ -0,0 +1,62 @@
+// Just enough of the source map v3 format to turn a position in generated code
+// back into one in the original file.
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+// [generated column, original line, original column], all zero-based.
+type Segment = [number, number, number];
+
+export type SourceMapLines = Segment[][];
+
+function decodeVlq(text: string): number[] {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+  for (const char of text) {
+    const digit = BASE64.indexOf(char);
+    value += (digit & 31) << shift;
+    if (digit & 32) {
+      shift += 5;
+    } else {
+      values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+      value = 0;
+      shift = 0;
+    }
+  }
+  return values;
+}
+
+export function parseSourceMap(text: string): SourceMapLines {
+  const { mappings } = JSON.parse(text) as { mappings: string };
+  let originalLine = 0;
+  let originalColumn = 0;
+
+  return mappings.split(';').map(line => {
+    let generatedColumn = 0;
+    const segments: Segment[] = [];
+    for (const encoded of line.split(',')) {
+      if (!encoded) continue;
+      const fields = decodeVlq(encoded);
+      generatedColumn += fields[0];
+      // Segments without a source position map to nothing in the original.
+      if (fields.length < 4) continue;
+      originalLine += fields[2];
+      originalColumn += fields[3];
+      segments.push([generatedColumn, originalLine, originalColumn]);
+    }
+    return segments;
+  });
+}
+
+// Takes and returns one-based lines and columns, like stack traces use.
+export function originalPosition(map: SourceMapLines, line: number, column: number): { line: number; column: number } | null {
+  const segments = map[line - 1];
+  if (!segments || segments.length === 0) return null;
+
+  let match = segments[0];
+  for (const segment of segments) {
+    if (segment[0] > column - 1) break;
+    match = segment;
+  }
+  return { line: match[1] + 1, column: match[2] + 1 };
+}
@@ -0,0 +1,94 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ChatMessage } from './ai-providers';
+import { supabase } from './supabase';
+import type { Workspace, WorkspaceData, WorkspaceStore, WorkspaceSummary } from './workspace-store';
+
+interface ProjectRow {
+  id: string;
+  name: string;
+  updated_at: string;
+  files: WorkspaceData['files'];
+  settings: WorkspaceData['settings'];
+  development_plan: WorkspaceData['developmentPlan'];
+  chat: ChatMessage[];
+}
+
+function toWorkspace(row: ProjectRow): Workspace {
+  return {
+    id: row.id,
+    name: row.name,
+    updatedAt: row.updated_at,
+    files: row.files,
+    settings: row.settings,
+    developmentPlan: row.development_plan,
+    chat: row.chat,
+  };
+}
+
+function toColumns(data: WorkspaceData) {
+  return {
+    files: data.files,
+    settings: data.settings,
+    development_plan: data.developmentPlan,
+    chat: data.chat || [],
+  };
+}
+
+// Stores workspaces in the `projects` table (see supabase/migrations). Row
+// level security limits every query to the signed-in user's rows.
+export class SupabaseWorkspaceStore implements WorkspaceStore {
+  constructor(private client: SupabaseClient) {}
+
+  async list(): Promise<WorkspaceSummary[]> {
+    const { data, error } = await this.client
+      .from('projects')
+      .select('id, name, updated_at')
+      .order('updated_at', { ascending: false });
+    if (error) throw new Error(error.message);
+    return data.map(row => ({ id: row.id, name: row.name, updatedAt: row.updated_at }));
+  }
+
+  async get(id: string): Promise<Workspace | null> {
+    const { data, error } = await this.client
+      .from('projects')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+    if (error) throw new Error(error.message);
+    return data ? toWorkspace(data) : null;
+  }
+
+  async create(name: string, data: WorkspaceData): Promise<Workspace> {
+    const { data: row, error } = await this.client
+      .from('projects')
+      .insert({ name, ...toColumns(data) })
+      .select('*')
+      .single();
+    if (error) throw new Error(error.message);
+    return toWorkspace(row);
+  }
+
+  async rename(id: string, name: string) {
+    await this.update(id, { name });
+  }
+
+  async save(id: string, data: WorkspaceData) {
+    await this.update(id, toColumns(data));
+  }
+
+  async remove(id: string) {
+    const { error } = await this.client.from('projects').delete().eq('id', id);
+    if (error) throw new Error(error.message);
+  }
+
+  // Row level security turns an update of someone else's row, or one made
+  // after the session has expired, into an update of no rows rather than an
+  // error, so the updated rows are read back.
+  private async update(id: string, columns: Partial<Omit<ProjectRow, 'id'>>) {
+    const { data, error } = await this.client.from('projects').update(columns).eq('id', id).select('id');
+    if (error) throw new Error(error.message);
+    if (data.length === 0) throw new Error('The project could not be saved. Sign in again, or it may have been deleted.');
+  }
+}
+
+export const cloudWorkspaceStore = supabase ? new SupabaseWorkspaceStore(supabase) : null;
@@ -0,0 +1,86 @@
+import type { Monaco } from '@monaco-editor/react';
+
+// The shape of TypeScript's DiagnosticMessageChain that the worker returns.
+type DiagnosticMessage = string | { messageText: string; next?: DiagnosticMessage[] };
+
+export interface TypeScriptBuild {
+  // Path -> emitted JavaScript, for every TypeScript file.
+  files: Record<string, string>;
+  // Path -> source map of the emitted JavaScript.
+  sourceMaps: Record<string, string>;
+  // Type and syntax errors, one line each, as `path:line:column TScode: message`.
+  diagnostics: string[];
+}
+
+export function isTypeScript(path: string) {
+  return /\.tsx?$/.test(path) && !path.endsWith('.d.ts');
+}
+
+let configured = false;
+
+// Emits ES modules with separate source maps. The editor shares these
+// options, so the checks it shows match what Run reports.
+function configure(monaco: Monaco) {
+  if (configured) return;
+  configured = true;
+  const { typescript } = monaco.languages;
+  typescript.typescriptDefaults.setCompilerOptions({
+    ...typescript.typescriptDefaults.getCompilerOptions(),
+    target: typescript.ScriptTarget.ES2020,
+    module: typescript.ModuleKind.ESNext,
+    moduleResolution: typescript.ModuleResolutionKind.NodeJs,
+    jsx: typescript.JsxEmit.React,
+    esModuleInterop: true,
+    allowNonTsExtensions: true,
+    sourceMap: true,
+  });
+}
+
+function flattenMessage(message: DiagnosticMessage): string {
+  if (typeof message === 'string') return message;
+  return [message.messageText, ...(message.next || []).map(flattenMessage)].join(' ');
+}
+
+// Compiles the project's TypeScript files with Monaco's TypeScript worker.
+// Every file gets a model at `file:///<path>`, the same URI the editor uses,
+// so imports between files resolve and the open file is not duplicated.
+// Output is emitted even when there are type errors.
+export async function compileTypeScript(monaco: Monaco, files: Record<string, string>): Promise<TypeScriptBuild> {
+  configure(monaco);
+
+  const paths = Object.keys(files).filter(isTypeScript);
+  const models = paths.map(path => {
+    const uri = monaco.Uri.file(path);
+    const model = monaco.editor.getModel(uri) ?? monaco.editor.createModel(files[path], 'typescript', uri);
+    if (model.getValue() !== files[path]) model.setValue(files[path]);
+    if (model.getLanguageId() !== 'typescript') monaco.editor.setModelLanguage(model, 'typescript');
+    return { path, model };
+  });
+
+  const getWorker = await monaco.languages.typescript.getTypeScriptWorker();
+  const worker = await getWorker(...models.map(({ model }) => model.uri));
+  const build: TypeScriptBuild = { files: {}, sourceMaps: {}, diagnostics: [] };
+
+  for (const { path, model } of models) {
+    const fileName = model.uri.toString();
+    const [syntactic, semantic, emit] = await Promise.all([
+      worker.getSyntacticDiagnostics(fileName),
+      worker.getSemanticDiagnostics(fileName),
+      worker.getEmitOutput(fileName),
+    ]);
+
+    for (const diagnostic of [...syntactic, ...semantic]) {
+      const position = model.getPositionAt(diagnostic.start ?? 0);
+      build.diagnostics.push(
+        `${path}:${position.lineNumber}:${position.column} TS${diagnostic.code}: ${flattenMessage(diagnostic.messageText)}`
+      );
+    }
+
+    const code = emit.outputFiles.find(file => file.name.endsWith('.js'));
+    const map = emit.outputFiles.find(file => file.name.endsWith('.js.map'));
+    if (code) build.files[path] = code.text.replace(/\n\/\/# sourceMappingURL=.*$/, '');
+    if (map) build.sourceMaps[path] = map.text;
+  }
+
+  return build;
+}
@@ -0,0 +1,142 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MemoryWorkspaceStore, scheduleSave, type WorkspaceData } from './workspace-store';
+
+function workspaceData(content: string): WorkspaceData {
+  return {
+    files: [{ name: 'index.js', type: 'file', content }],
+    settings: { theme: 'vs-dark' },
+    developmentPlan: [],
+  };
+}
+
+describe('MemoryWorkspaceStore', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('creates a workspace and opens it by id', async () => {
+    const store = new MemoryWorkspaceStore();
+    const created = await store.create('Demo', workspaceData('1'));
+
+    expect(created).toMatchObject({ name: 'Demo', updatedAt: '2026-01-01T00:00:00.000Z', ...workspaceData('1') });
+    expect(await store.get(created.id)).toEqual(created);
+    expect(await store.get('missing')).toBeNull();
+  });
+
+  it('hands out copies, so edits only land through save', async () => {
+    const store = new MemoryWorkspaceStore();
+    const data = workspaceData('1');
+    const created = await store.create('Demo', data);
+
+    data.files[0].content = 'changed';
+    created.name = 'changed';
+    expect(await store.get(created.id)).toMatchObject({ name: 'Demo', files: workspaceData('1').files });
+  });
+
+  it('lists workspaces, most recently changed first', async () => {
+    const store = new MemoryWorkspaceStore();
+    const first = await store.create('First', workspaceData('1'));
+    vi.advanceTimersByTime(1000);
+    const second = await store.create('Second', workspaceData('2'));
+    vi.advanceTimersByTime(1000);
+    await store.save(first.id, workspaceData('3'));
+
+    expect((await store.list()).map(summary => summary.id)).toEqual([first.id, second.id]);
+  });
+
+  it('renames a workspace and updates its timestamp', async () => {
+    const store = new MemoryWorkspaceStore();
+    const created = await store.create('Demo', workspaceData('1'));
+    vi.advanceTimersByTime(1000);
+    await store.rename(created.id, 'Renamed');
+
+    expect(await store.list()).toEqual([{ id: created.id, name: 'Renamed', updatedAt: '2026-01-01T00:00:01.000Z' }]);
+  });
+
+  it('deletes a workspace', async () => {
+    const store = new MemoryWorkspaceStore();
+    const created = await store.create('Demo', workspaceData('1'));
+    await store.remove(created.id);
+
+    expect(await store.get(created.id)).toBeNull();
+    expect(await store.list()).toEqual([]);
+  });
+
+  it('rejects changes to a workspace that does not exist', async () => {
+    const store = new MemoryWorkspaceStore();
+
+    await expect(store.rename('missing', 'Renamed')).rejects.toThrow('Workspace not found');
+    await expect(store.save('missing', workspaceData('1'))).rejects.toThrow('Workspace not found');
+  });
+});
+
+describe('scheduleSave', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('writes once the delay has passed', async () => {
+    const store = new MemoryWorkspaceStore();
+    const { id } = await store.create('Demo', workspaceData('1'));
+    const onSaved = vi.fn();
+
+    scheduleSave(store, id, workspaceData('2'), 1500, { onSaved });
+    await vi.advanceTimersByTimeAsync(1499);
+    expect((await store.get(id))?.files).toEqual(workspaceData('1').files);
+    expect(onSaved).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect((await store.get(id))?.files).toEqual(workspaceData('2').files);
+    expect(onSaved).toHaveBeenCalledOnce();
+  });
+
+  it('writes only the latest of a burst of changes', async () => {
+    const store = new MemoryWorkspaceStore();
+    const { id } = await store.create('Demo', workspaceData('1'));
+    const save = vi.spyOn(store, 'save');
+
+    let cancel = () => {};
+    for (const content of ['a', 'ab', 'abc']) {
+      cancel();
+      cancel = scheduleSave(store, id, workspaceData(content), 1500);
+      await vi.advanceTimersByTimeAsync(1000);
+    }
+    await vi.advanceTimersByTimeAsync(500);
+
+    expect(save).toHaveBeenCalledOnce();
+    expect((await store.get(id))?.files).toEqual(workspaceData('abc').files);
+  });
+
+  it('writes nothing once cancelled', async () => {
+    const store = new MemoryWorkspaceStore();
+    const { id } = await store.create('Demo', workspaceData('1'));
+    const onSaving = vi.fn();
+
+    scheduleSave(store, id, workspaceData('2'), 1500, { onSaving })();
+    await vi.advanceTimersByTimeAsync(2000);
+
+    expect(onSaving).not.toHaveBeenCalled();
+    expect((await store.get(id))?.files).toEqual(workspaceData('1').files);
+  });
+
+  it('reports a failed write', async () => {
+    const store = new MemoryWorkspaceStore();
+    const onSaved = vi.fn();
+    const onError = vi.fn();
+
+    scheduleSave(store, 'missing', workspaceData('1'), 1500, { onSaved, onError });
+    await vi.advanceTimersByTimeAsync(1500);
+
+    expect(onSaved).not.toHaveBeenCalled();
+    expect(onError).toHaveBeenCalledWith(new Error('Workspace not found'));
+  });
+});
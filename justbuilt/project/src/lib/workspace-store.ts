@@ -0,0 +1,109 @@
+import type { ChatMessage } from './ai-providers';
+import type { FileNode } from './file-tree';
+import type { CompletionSettings } from './inline-completions';
+import type { Step } from './plan-runner';
+
+export interface WorkspaceSettings {
+  theme: string;
+  // File the Run button starts from; the open file when unset.
+  mainFile?: string;
+  // Path -> language id, for files not shown in the language detected for them.
+  languages?: Record<string, string>;
+  // Inline AI completions while typing, off unless set.
+  completions?: CompletionSettings;
+}
+
+export interface WorkspaceData {
+  files: FileNode[];
+  settings: WorkspaceSettings;
+  developmentPlan: Step[];
+  // The assistant chat, kept with the project it is about.
+  chat?: ChatMessage[];
+}
+
+export interface WorkspaceSummary {
+  id: string;
+  name: string;
+  updatedAt: string;
+}
+
+export interface Workspace extends WorkspaceSummary, WorkspaceData {}
+
+// Everything the IDE needs from a place that keeps projects. Implementations
+// reject with an Error whose message is fit to show the user.
+export interface WorkspaceStore {
+  list(): Promise<WorkspaceSummary[]>;
+  get(id: string): Promise<Workspace | null>;
+  create(name: string, data: WorkspaceData): Promise<Workspace>;
+  rename(id: string, name: string): Promise<void>;
+  save(id: string, data: WorkspaceData): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+// Writes `data` to the workspace once `delayMs` has passed, unless the returned
+// function cancels it first. Cancelling on every change and scheduling again
+// debounces saves: only the latest data is written, once editing pauses.
+export function scheduleSave(
+  store: WorkspaceStore,
+  id: string,
+  data: WorkspaceData,
+  delayMs: number,
+  events: {
+    onSaving?: () => void;
+    onSaved?: () => void | Promise<void>;
+    onError?: (error: Error) => void;
+  } = {}
+): () => void {
+  const timer = setTimeout(async () => {
+    events.onSaving?.();
+    try {
+      await store.save(id, data);
+      await events.onSaved?.();
+    } catch (error) {
+      events.onError?.(error as Error);
+    }
+  }, delayMs);
+  return () => clearTimeout(timer);
+}
+
+// Keeps workspaces in a Map. Used in tests and as a stand-in wherever a real
+// backend is not available.
+export class MemoryWorkspaceStore implements WorkspaceStore {
+  private workspaces = new Map<string, Workspace>();
+  private nextId = 1;
+
+  async list() {
+    return [...this.workspaces.values()]
+      .map(({ id, name, updatedAt }) => ({ id, name, updatedAt }))
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  async get(id: string) {
+    const workspace = this.workspaces.get(id);
+    return workspace ? structuredClone(workspace) : null;
+  }
+
+  async create(name: string, data: WorkspaceData) {
+    const workspace = { id: String(this.nextId++), name, updatedAt: new Date().toISOString(), ...structuredClone(data) };
+    this.workspaces.set(workspace.id, workspace);
+    return structuredClone(workspace);
+  }
+
+  async rename(id: string, name: string) {
+    this.update(id, { name });
+  }
+
+  async save(id: string, data: WorkspaceData) {
+    this.update(id, structuredClone(data));
+  }
+
+  async remove(id: string) {
+    this.workspaces.delete(id);
+  }
+
+  private update(id: string, changes: Partial<Workspace>) {
+    const workspace = this.workspaces.get(id);
+    if (!workspace) throw new Error('Workspace not found');
+    this.workspaces.set(id, { ...workspace, ...changes, updatedAt: new Date().toISOString() });
+  }
+}
@@ -0,0 +1,47 @@
+-- Cloud workspaces: one row per project, owned by the signed-in user.
+create table if not exists public.projects (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  name text not null,
+  files jsonb not null default '[]'::jsonb,
+  settings jsonb not null default '{}'::jsonb,
+  development_plan jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists projects_user_id_updated_at_idx
+  on public.projects (user_id, updated_at desc);
+
+create or replace function public.set_projects_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+create trigger projects_set_updated_at
+  before update on public.projects
+  for each row execute function public.set_projects_updated_at();
+
+alter table public.projects enable row level security;
+
+create policy "Users can read their own projects"
+  on public.projects for select
+  using (auth.uid() = user_id);
+
+create policy "Users can create their own projects"
+  on public.projects for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own projects"
+  on public.projects for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users can delete their own projects"
+  on public.projects for delete
+  using (auth.uid() = user_id);
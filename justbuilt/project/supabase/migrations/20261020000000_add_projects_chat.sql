@@ -0,0 +1,3 @@
+-- The assistant chat of each project, as [{ role, content }].
+alter table public.projects
+  add column if not exists chat jsonb not null default '[]'::jsonb;
@@ -1,10 +1,61 @@
-import { defineConfig } from 'vite';
+import { copyFile, mkdir } from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import { dirname, join } from 'node:path';
+import { defineConfig, loadEnv, type Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Pyodide loads its runtime files from next to its own module. In dev that is
+// node_modules/pyodide; in a build they are copied next to the bundled worker
+// so Python runs without fetching anything from a CDN.
+function pyodideAssets(): Plugin {
+  const files = ['pyodide-lock.json', 'pyodide.asm.js', 'pyodide.asm.wasm', 'python_stdlib.zip'];
+  return {
+    name: 'pyodide-assets',
+    apply: 'build',
+    async generateBundle(options) {
+      const source = dirname(createRequire(import.meta.url).resolve('pyodide'));
+      const target = join(options.dir || 'dist', 'assets');
+      await mkdir(target, { recursive: true });
+      await Promise.all(files.map(file => copyFile(join(source, file), join(target, file))));
+    },
+  };
+}
+
+// Every VITE_ variable ends up in the bundle, so provider keys must not be
+// one. The llm and provider-status functions read them on the server.
+function noProviderKeys(): Plugin {
+  return {
+    name: 'no-provider-keys',
+    config(_config, { mode }) {
+      const exposed = Object.keys(loadEnv(mode, process.cwd(), 'VITE_'))
+        .filter(name => /(_API_KEY|_SECRET)$/.test(name));
+      if (exposed.length > 0) {
+        throw new Error(`${exposed.join(', ')} would be bundled into the client. Drop the VITE_ prefix; the functions read the key without it.`);
+      }
+    },
+  };
+}
+
+// SharedArrayBuffer, which the runner uses to block on input(), needs a
+// cross-origin isolated page. netlify.toml sends the same headers in production.
+const isolationHeaders = {
+  'Cross-Origin-Opener-Policy': 'same-origin',
+  'Cross-Origin-Embedder-Policy': 'credentialless',
+};
+
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), pyodideAssets(), noProviderKeys()],
   optimizeDeps: {
-    exclude: ['lucide-react'],
+    exclude: ['lucide-react', 'pyodide'],
+  },
+  worker: {
+    format: 'es',
+  },
+  server: {
+    headers: isolationHeaders,
+  },
+  preview: {
+    headers: isolationHeaders,
   },
 });
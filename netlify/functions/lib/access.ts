@@ -0,0 +1,86 @@
+import { createHash, createHmac, timingSafeEqual } from 'node:crypto';
+
+// Who may call the llm function.
+//
+// LLM_ALLOWED_ORIGINS: comma-separated origins browsers may call from, besides
+// the site itself; `*` allows any.
+// LLM_API_TOKENS: comma-separated bearer tokens, for scripts and other servers.
+// SUPABASE_JWT_SECRET: accepts the access token of a signed-in Supabase user.
+// Without either of the last two anyone who passes the origin check may call.
+
+function listFromEnv(name: string): string[] {
+  return (process.env[name] || '').split(',').map((value) => value.trim()).filter(Boolean);
+}
+
+// Requests without an Origin header do not come from a browser page, so only
+// authentication can stop them.
+export function isAllowedOrigin(origin: string | undefined, host: string | undefined): boolean {
+  if (!origin) return true;
+  const allowed = listFromEnv('LLM_ALLOWED_ORIGINS');
+  if (allowed.includes('*') || allowed.includes(origin)) return true;
+  try {
+    return new URL(origin).host === host;
+  } catch {
+    return false;
+  }
+}
+
+// CORS headers for a response to `origin`, which has passed isAllowedOrigin.
+export function corsHeaders(origin: string | undefined): Record<string, string> {
+  return origin ? { 'Access-Control-Allow-Origin': origin, Vary: 'Origin' } : {};
+}
+
+// Raised when authentication is required and the request has none or a bad one.
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+function safeEqual(a: string, b: string) {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+function decodeSegment(segment: string): Record<string, unknown> | null {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+}
+
+// The user id in a Supabase access token, or null unless it is signed with
+// `secret`, unexpired and for a signed-in user. The anon key is a JWT signed
+// with the same secret, which is why the role is checked.
+function supabaseUserId(token: string, secret: string): string | null {
+  const [header, payload, signature] = token.split('.');
+  if (!header || !payload || !signature) return null;
+  const expected = createHmac('sha256', secret).update(`${header}.${payload}`).digest('base64url');
+  if (!safeEqual(signature, expected) || decodeSegment(header)?.alg !== 'HS256') return null;
+  const claims = decodeSegment(payload);
+  if (!claims || claims.role !== 'authenticated' || typeof claims.sub !== 'string') return null;
+  if (typeof claims.exp !== 'number' || claims.exp * 1000 <= Date.now()) return null;
+  return claims.sub;
+}
+
+// A stable id for the caller, used as its rate limit key: `user:<id>` or
+// `token:<hash>`. Null when no authentication is configured; throws an
+// AuthError when it is and the Authorization header does not satisfy it.
+export function authenticate(authorization: string | undefined): string | null {
+  const tokens = listFromEnv('LLM_API_TOKENS');
+  const jwtSecret = process.env.SUPABASE_JWT_SECRET;
+  if (tokens.length === 0 && !jwtSecret) return null;
+
+  const bearer = authorization?.match(/^Bearer\s+(.+)$/i)?.[1]?.trim();
+  if (!bearer) throw new AuthError('Sign in to use the AI features');
+
+  if (tokens.some((token) => safeEqual(token, bearer))) {
+    return `token:${createHash('sha256').update(bearer).digest('hex').slice(0, 16)}`;
+  }
+  const userId = jwtSecret ? supabaseUserId(bearer, jwtSecret) : null;
+  if (userId) return `user:${userId}`;
+  throw new AuthError('Invalid or expired credentials');
+}
@@ -0,0 +1,51 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { probeEndpoint } from './probe';
+import type { ChatMessage, ProviderAdapter } from './types';
+
+const gemini = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '');
+
+// gemini-pro has no system role, so the conversation is flattened into a
+// single prompt with the system instructions first. Once the model has
+// replied, turns are labelled so it can tell who said what.
+function toPrompt(messages: ChatMessage[]) {
+  const labelled = messages.some((message) => message.role === 'assistant');
+  return messages
+    .map((message) => labelled && message.role !== 'system'
+      ? `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}`
+      : message.content)
+    .join('\n\n');
+}
+
+export const geminiProvider: ProviderAdapter = {
+  id: 'gemini',
+  name: 'Gemini',
+  models: ['gemini-pro'],
+  defaultModel: 'gemini-pro',
+  contextTokens: { 'gemini-pro': 32760 },
+  capabilities: { streaming: true, jsonMode: false },
+
+  isConfigured: () => Boolean(process.env.GEMINI_API_KEY),
+
+  // The key goes in a header so it never ends up in a logged URL.
+  probe: (signal) => probeEndpoint(
+    'https://generativelanguage.googleapis.com/v1beta/models?pageSize=1',
+    { 'x-goog-api-key': process.env.GEMINI_API_KEY || '' },
+    signal
+  ),
+
+  async complete({ model, messages, maxTokens }) {
+    const genModel = gemini.getGenerativeModel({ model, generationConfig: { maxOutputTokens: maxTokens } });
+    const response = await genModel.generateContent(toPrompt(messages));
+    return response.response.text();
+  },
+
+  // The SDK takes no abort signal; it stops reading once we stop pulling.
+  async *stream({ model, messages, maxTokens, signal }) {
+    const genModel = gemini.getGenerativeModel({ model, generationConfig: { maxOutputTokens: maxTokens } });
+    const response = await genModel.generateContentStream(toPrompt(messages));
+    for await (const chunk of response.stream) {
+      if (signal?.aborted) return;
+      yield chunk.text();
+    }
+  },
+};
@@ -0,0 +1,41 @@
+import Groq from 'groq-sdk';
+import { probeEndpoint } from './probe';
+import type { ProviderAdapter } from './types';
+
+const groq = new Groq({
+  apiKey: process.env.GROQ_API_KEY || '',
+});
+
+export const groqProvider: ProviderAdapter = {
+  id: 'groq',
+  name: 'Groq',
+  models: ['mixtral-8x7b-32768', 'llama3-70b-8192', 'llama3-8b-8192'],
+  defaultModel: 'mixtral-8x7b-32768',
+  contextTokens: { 'mixtral-8x7b-32768': 32768, 'llama3-70b-8192': 8192, 'llama3-8b-8192': 8192 },
+  capabilities: { streaming: true, jsonMode: true },
+
+  isConfigured: () => Boolean(process.env.GROQ_API_KEY),
+
+  probe: (signal) => probeEndpoint(
+    'https://api.groq.com/openai/v1/models',
+    { Authorization: `Bearer ${process.env.GROQ_API_KEY || ''}` },
+    signal
+  ),
+
+  async complete({ model, messages, json, maxTokens, signal }) {
+    const response = await groq.chat.completions.create({
+      model,
+      messages,
+      max_tokens: maxTokens,
+      response_format: json ? { type: 'json_object' } : undefined,
+    }, { signal });
+    return response.choices[0].message.content;
+  },
+
+  async *stream({ model, messages, maxTokens, signal }) {
+    const chunks = await groq.chat.completions.create({ model, messages, max_tokens: maxTokens, stream: true }, { signal });
+    for await (const chunk of chunks) {
+      yield chunk.choices[0]?.delta.content || '';
+    }
+  },
+};
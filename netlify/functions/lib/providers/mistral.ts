@@ -0,0 +1,40 @@
+import MistralClient, { type ResponseFormat } from '@mistralai/mistralai';
+import { probeEndpoint } from './probe';
+import type { ProviderAdapter } from './types';
+
+const mistral = new MistralClient(process.env.MISTRAL_API_KEY || '');
+
+export const mistralProvider: ProviderAdapter = {
+  id: 'mistral',
+  name: 'Mistral',
+  models: ['mistral-large-latest', 'mistral-small-latest', 'open-mixtral-8x7b'],
+  defaultModel: 'mistral-large-latest',
+  contextTokens: { 'mistral-large-latest': 32000, 'mistral-small-latest': 32000, 'open-mixtral-8x7b': 32000 },
+  capabilities: { streaming: true, jsonMode: true },
+
+  isConfigured: () => Boolean(process.env.MISTRAL_API_KEY),
+
+  probe: (signal) => probeEndpoint(
+    'https://api.mistral.ai/v1/models',
+    { Authorization: `Bearer ${process.env.MISTRAL_API_KEY || ''}` },
+    signal
+  ),
+
+  async complete({ model, messages, json, maxTokens }) {
+    const response = await mistral.chat({
+      model,
+      messages,
+      maxTokens,
+      responseFormat: json ? { type: 'json_object' } as ResponseFormat : undefined,
+    });
+    return response.choices[0].message.content;
+  },
+
+  // The SDK takes no abort signal; it stops reading once we stop pulling.
+  async *stream({ model, messages, maxTokens, signal }) {
+    for await (const chunk of mistral.chatStream({ model, messages, maxTokens })) {
+      if (signal?.aborted) return;
+      yield chunk.choices[0]?.delta.content || '';
+    }
+  },
+};
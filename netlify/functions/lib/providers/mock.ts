@@ -0,0 +1,126 @@
+import type { ProviderAdapter, RequestType } from './types';
+
+// Deterministic responses so the whole flow can run without network access or
+// API keys. MOCK_LLM_RESPONSES may hold a JSON object keyed by request type to
+// replace any of these; see mockProviderFromEnv.
+const defaultScript: Record<RequestType, string> = {
+  plan: JSON.stringify({
+    steps: [
+      { description: 'Set up the project entry point', prompt: 'Create src/index.js that logs a greeting' },
+      { description: 'Add a utility module', prompt: 'Create src/utils.js exporting an add(a, b) function' },
+      { description: 'Wire the utility into the entry point', prompt: 'Import add from ./utils.js in src/index.js and log add(2, 3)' },
+    ],
+  }),
+  structure: JSON.stringify({
+    files: [
+      {
+        name: 'src',
+        type: 'directory',
+        children: [
+          { name: 'index.js', type: 'file' },
+          { name: 'utils.js', type: 'file' },
+        ],
+      },
+      { name: 'README.md', type: 'file' },
+    ],
+  }),
+  step: JSON.stringify({
+    files: [
+      {
+        path: 'src/utils.js',
+        content: 'export function add(a, b) {\n  return a + b;\n}\n',
+      },
+    ],
+  }),
+  chat: [
+    'Here is a version of the entry point that uses the helper:',
+    '',
+    '```js src/index.js',
+    "import { add } from './utils.js';",
+    '',
+    'console.log(add(2, 3));',
+    '```',
+    '',
+    'Apply it to replace the file.',
+  ].join('\n'),
+  complete: "console.log('completed by the mock provider');",
+  explain: 'This code is explained by the mock provider: it logs a greeting and then the sum of two numbers.',
+  refactor: ['// Refactored by the mock provider', "const greeting = 'Hello, world!';", 'console.log(greeting);', ''].join('\n'),
+  document: ['/**', ' * Logs a greeting. Documented by the mock provider.', ' */', "console.log('Hello, world!');", ''].join('\n'),
+  test: [
+    "import { describe, expect, it } from 'vitest';",
+    "import { add } from './utils.js';",
+    '',
+    "describe('add', () => {",
+    "  it('adds two numbers', () => {",
+    '    expect(add(2, 3)).toBe(5);',
+    '  });',
+    '});',
+    '',
+  ].join('\n'),
+  fix: ['// Fixed by the mock provider', "console.log('Hello, world!');", ''].join('\n'),
+  code: [
+    '// Generated by the mock provider',
+    'function greet(name) {',
+    '  return `Hello, ${name}!`;',
+    '}',
+    '',
+    "console.log(greet('world'));",
+    '',
+  ].join('\n'),
+};
+
+// Reads MOCK_LLM_RESPONSES once, so a bad value fails when the provider is
+// registered, naming the variable, instead of on every request.
+export function mockProviderFromEnv(): ProviderAdapter {
+  const raw = process.env.MOCK_LLM_RESPONSES;
+  if (!raw) return createMockProvider(defaultScript);
+
+  let overrides: unknown;
+  try {
+    overrides = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`MOCK_LLM_RESPONSES is not valid JSON: ${(error as Error).message}`);
+  }
+  if (typeof overrides !== 'object' || overrides === null || Array.isArray(overrides)) {
+    throw new Error('MOCK_LLM_RESPONSES must be a JSON object keyed by request type');
+  }
+  for (const [type, response] of Object.entries(overrides)) {
+    if (!Object.hasOwn(defaultScript, type)) {
+      throw new Error(`MOCK_LLM_RESPONSES has an unknown request type "${type}"`);
+    }
+    if (typeof response !== 'string') {
+      throw new Error(`MOCK_LLM_RESPONSES.${type} must be a string`);
+    }
+  }
+  return createMockProvider({ ...defaultScript, ...(overrides as Partial<Record<RequestType, string>>) });
+}
+
+export function createMockProvider(script: Record<RequestType, string>): ProviderAdapter {
+  return {
+    id: 'mock',
+    name: 'Mock (offline)',
+    models: ['mock-1'],
+    defaultModel: 'mock-1',
+    contextTokens: { 'mock-1': 8192 },
+    capabilities: { streaming: true, jsonMode: true },
+
+    isConfigured: () => true,
+
+    async probe() {},
+
+    async complete({ type }) {
+      return script[type];
+    },
+
+    // Replays the scripted response a few characters at a time, the way a real
+    // provider would, so streaming consumers get more than one delta.
+    async *stream({ type, signal }) {
+      const response = script[type];
+      for (let i = 0; i < response.length; i += 16) {
+        if (signal?.aborted) return;
+        yield response.slice(i, i + 16);
+      }
+    },
+  };
+}
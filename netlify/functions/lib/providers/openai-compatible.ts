@@ -0,0 +1,110 @@
+import { probeEndpoint } from './probe';
+import type { CompletionRequest, ProviderAdapter } from './types';
+
+export interface OpenAICompatibleConfig {
+  id: string;
+  name: string;
+  // e.g. http://localhost:11434/v1 for Ollama, http://localhost:8080/v1 for llama.cpp
+  baseUrl: string;
+  apiKey?: string;
+  models: string[];
+  // Window of every model; local servers are often run with a small one.
+  contextTokens: number;
+}
+
+// Adapter for any server that speaks the OpenAI chat completions API.
+export function createOpenAICompatibleProvider(config: OpenAICompatibleConfig): ProviderAdapter {
+  const baseUrl = config.baseUrl.replace(/\/+$/, '');
+
+  async function request({ model, messages, json, maxTokens, signal }: CompletionRequest, stream: boolean) {
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        messages,
+        stream,
+        ...(maxTokens ? { max_tokens: maxTokens } : {}),
+        ...(json ? { response_format: { type: 'json_object' } } : {}),
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`${config.name} returned HTTP ${response.status}`);
+    }
+    return response;
+  }
+
+  return {
+    id: config.id,
+    name: config.name,
+    models: config.models,
+    defaultModel: config.models[0],
+    contextTokens: Object.fromEntries(config.models.map((model) => [model, config.contextTokens])),
+    capabilities: { streaming: true, jsonMode: true },
+
+    // Only registered once a base URL is set; many local servers need no key.
+    isConfigured: () => true,
+
+    probe: (signal) => probeEndpoint(
+      `${baseUrl}/models`,
+      config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {},
+      signal
+    ),
+
+    async complete(completion) {
+      const response = await request(completion, false);
+      const data = await response.json();
+      return data.choices[0].message.content;
+    },
+
+    async *stream(completion) {
+      const response = await request(completion, true);
+      if (!response.body) return;
+
+      const decoder = new TextDecoder();
+      let buffer = '';
+      for await (const bytes of response.body as unknown as AsyncIterable<Uint8Array>) {
+        buffer += decoder.decode(bytes, { stream: true });
+
+        let newline;
+        while ((newline = buffer.indexOf('\n')) !== -1) {
+          const line = buffer.slice(0, newline).trim();
+          buffer = buffer.slice(newline + 1);
+
+          if (!line.startsWith('data:')) continue;
+          const data = line.slice(5).trim();
+          if (data === '[DONE]') return;
+          yield JSON.parse(data).choices[0]?.delta?.content || '';
+        }
+      }
+    },
+  };
+}
+
+// Configured through OPENAI_COMPATIBLE_BASE_URL, OPENAI_COMPATIBLE_MODELS
+// (comma-separated) and optionally OPENAI_COMPATIBLE_API_KEY,
+// OPENAI_COMPATIBLE_NAME and OPENAI_COMPATIBLE_CONTEXT_TOKENS. Returns null
+// when no base URL is set.
+export function openAICompatibleProviderFromEnv(): ProviderAdapter | null {
+  const baseUrl = process.env.OPENAI_COMPATIBLE_BASE_URL;
+  if (!baseUrl) return null;
+
+  const models = (process.env.OPENAI_COMPATIBLE_MODELS || 'llama3')
+    .split(',')
+    .map((model) => model.trim())
+    .filter(Boolean);
+
+  return createOpenAICompatibleProvider({
+    id: 'openai-compatible',
+    name: process.env.OPENAI_COMPATIBLE_NAME || 'Local (OpenAI-compatible)',
+    baseUrl,
+    apiKey: process.env.OPENAI_COMPATIBLE_API_KEY,
+    models,
+    contextTokens: Number(process.env.OPENAI_COMPATIBLE_CONTEXT_TOKENS) || 4096,
+  });
+}
@@ -0,0 +1,25 @@
+// Raised when a provider fails its health probe. The message is ours, never
+// the upstream response, so it is safe to show in the UI.
+export class ProbeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProbeError';
+  }
+}
+
+// GETs `url`, usually the provider's model list: the cheapest call that proves
+// both the endpoint and the credentials work.
+export async function probeEndpoint(url: string, headers: Record<string, string>, signal: AbortSignal) {
+  let response: Response;
+  try {
+    response = await fetch(url, { headers, signal });
+  } catch {
+    throw new ProbeError(signal.aborted ? 'Timed out' : 'Could not connect');
+  }
+  if (response.status === 401 || response.status === 403) {
+    throw new ProbeError('Credentials were rejected');
+  }
+  if (!response.ok) {
+    throw new ProbeError(`Responded with HTTP ${response.status}`);
+  }
+}
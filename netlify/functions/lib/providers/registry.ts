@@ -0,0 +1,75 @@
+import { geminiProvider } from './gemini';
+import { groqProvider } from './groq';
+import { mistralProvider } from './mistral';
+import { mockProviderFromEnv } from './mock';
+import { openAICompatibleProviderFromEnv } from './openai-compatible';
+import { ProbeError } from './probe';
+import type { ProviderAdapter, ProviderInfo, ProviderStatus } from './types';
+
+const providers = new Map<string, ProviderAdapter>();
+
+export function registerProvider(provider: ProviderAdapter) {
+  providers.set(provider.id, provider);
+}
+
+export function getProvider(id: string): ProviderAdapter | undefined {
+  return providers.get(id);
+}
+
+export function listProviders(): ProviderInfo[] {
+  return [...providers.values()].map(({ id, name, models, defaultModel, contextTokens, capabilities }) => ({
+    id,
+    name,
+    models,
+    defaultModel,
+    contextTokens,
+    capabilities,
+  }));
+}
+
+// Probes cost a request to every provider, so results are reused for a while.
+// A refresh skips the cache, but not more often than REFRESH_INTERVAL_MS.
+const STATUS_TTL_MS = 60_000;
+const REFRESH_INTERVAL_MS = 10_000;
+const PROBE_TIMEOUT_MS = 5_000;
+
+let statusCache: { at: number; statuses: Promise<ProviderStatus[]> } | null = null;
+
+async function probeStatus(provider: ProviderAdapter): Promise<ProviderStatus> {
+  const status = { id: provider.id, name: provider.name, checkedAt: new Date().toISOString() };
+  if (!provider.isConfigured()) {
+    return { ...status, configured: false, reachable: false, detail: 'Not configured' };
+  }
+  try {
+    await provider.probe(AbortSignal.timeout(PROBE_TIMEOUT_MS));
+    return { ...status, configured: true, reachable: true };
+  } catch (error) {
+    if (!(error instanceof ProbeError)) {
+      console.error(`Error probing ${provider.id}:`, error);
+    }
+    return { ...status, configured: true, reachable: false, detail: error instanceof ProbeError ? error.message : 'Probe failed' };
+  }
+}
+
+export function providerStatuses(refresh = false): Promise<ProviderStatus[]> {
+  const age = statusCache ? Date.now() - statusCache.at : Infinity;
+  if (!statusCache || age > STATUS_TTL_MS || (refresh && age > REFRESH_INTERVAL_MS)) {
+    statusCache = { at: Date.now(), statuses: Promise.all([...providers.values()].map(probeStatus)) };
+  }
+  return statusCache.statuses;
+}
+
+registerProvider(geminiProvider);
+registerProvider(mistralProvider);
+registerProvider(groqProvider);
+
+const openAICompatible = openAICompatibleProviderFromEnv();
+if (openAICompatible) {
+  registerProvider(openAICompatible);
+}
+
+// The mock provider is always available under `netlify dev` and can be
+// switched on elsewhere (e.g. preview deploys) with ENABLE_MOCK_PROVIDER=true.
+if (process.env.NETLIFY_DEV === 'true' || process.env.ENABLE_MOCK_PROVIDER === 'true') {
+  registerProvider(mockProviderFromEnv());
+}
@@ -0,0 +1,68 @@
+export type RequestType =
+  | 'plan'
+  | 'structure'
+  | 'code'
+  | 'step'
+  | 'chat'
+  | 'complete'
+  // Code actions on the editor's selection.
+  | 'explain'
+  | 'refactor'
+  | 'document'
+  | 'test'
+  | 'fix';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ProviderCapabilities {
+  streaming: boolean;
+  jsonMode: boolean;
+}
+
+export interface CompletionRequest {
+  type: RequestType;
+  model: string;
+  messages: ChatMessage[];
+  // Ask for a JSON object reply. Only honoured when capabilities.jsonMode is set.
+  json?: boolean;
+  // Caps the length of the reply, for requests that must come back quickly.
+  maxTokens?: number;
+  signal?: AbortSignal;
+}
+
+// What the UI gets to see about a provider. Never carries credentials.
+export interface ProviderInfo {
+  id: string;
+  name: string;
+  models: string[];
+  defaultModel: string;
+  // Model -> tokens it can take in one request, prompt and reply together.
+  contextTokens: Record<string, number>;
+  capabilities: ProviderCapabilities;
+}
+
+// Whether a provider can be used right now, for the UI. Carries no
+// credentials and no upstream error text.
+export interface ProviderStatus {
+  id: string;
+  name: string;
+  configured: boolean;
+  reachable: boolean;
+  // Why it is not reachable, e.g. "Credentials were rejected".
+  detail?: string;
+  // ISO timestamp of the probe.
+  checkedAt: string;
+}
+
+export interface ProviderAdapter extends ProviderInfo {
+  // Whether the credentials or endpoint it needs are set.
+  isConfigured(): boolean;
+  // A cheap authenticated request; throws a ProbeError if it fails.
+  probe(signal: AbortSignal): Promise<void>;
+  complete(request: CompletionRequest): Promise<string>;
+  // Yields text deltas. Aborting `request.signal` must stop the upstream call.
+  stream(request: CompletionRequest): AsyncGenerator<string>;
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { createMemoryStore, createRateLimiter } from './rate-limit';
+
+function limiter(capacity: number, refillPerMinute: number) {
+  let time = 0;
+  const rateLimiter = createRateLimiter({ store: createMemoryStore(), capacity, refillPerMinute, now: () => time });
+  return {
+    take: rateLimiter.take,
+    advance: (ms: number) => {
+      time += ms;
+    },
+  };
+}
+
+describe('createRateLimiter', () => {
+  it('allows a burst up to the capacity, then refuses', async () => {
+    const { take } = limiter(3, 60);
+
+    expect(await take('a')).toEqual({ allowed: true, remaining: 2, retryAfterSeconds: 0 });
+    expect(await take('a')).toEqual({ allowed: true, remaining: 1, retryAfterSeconds: 0 });
+    expect(await take('a')).toEqual({ allowed: true, remaining: 0, retryAfterSeconds: 0 });
+    expect(await take('a')).toEqual({ allowed: false, remaining: 0, retryAfterSeconds: 1 });
+  });
+
+  it('gives tokens back over time, up to the capacity', async () => {
+    const { take, advance } = limiter(2, 6);
+    await take('a');
+    await take('a');
+
+    advance(5_000);
+    expect((await take('a')).allowed).toBe(false);
+    advance(5_000);
+    expect(await take('a')).toEqual({ allowed: true, remaining: 0, retryAfterSeconds: 0 });
+
+    advance(60 * 60_000);
+    expect(await take('a')).toEqual({ allowed: true, remaining: 1, retryAfterSeconds: 0 });
+  });
+
+  it('says how long until enough tokens are back', async () => {
+    const { take, advance } = limiter(1, 2);
+    await take('a');
+
+    expect((await take('a')).retryAfterSeconds).toBe(30);
+    advance(20_000);
+    expect((await take('a')).retryAfterSeconds).toBe(10);
+  });
+
+  it('does not spend tokens on a refused request', async () => {
+    const { take, advance } = limiter(1, 60);
+    await take('a');
+    await take('a');
+    await take('a');
+
+    advance(1_000);
+    expect((await take('a')).allowed).toBe(true);
+  });
+
+  it('charges requests by cost', async () => {
+    const { take } = limiter(5, 60);
+
+    expect(await take('a', 4)).toEqual({ allowed: true, remaining: 1, retryAfterSeconds: 0 });
+    expect(await take('a', 2)).toEqual({ allowed: false, remaining: 0, retryAfterSeconds: 1 });
+    expect(await take('a', 1)).toEqual({ allowed: true, remaining: 0, retryAfterSeconds: 0 });
+  });
+
+  it('keeps a bucket per key', async () => {
+    const { take } = limiter(1, 1);
+    await take('a');
+
+    expect((await take('a')).allowed).toBe(false);
+    expect((await take('b')).allowed).toBe(true);
+  });
+});
+
+describe('createMemoryStore', () => {
+  it('returns what was set', async () => {
+    const store = createMemoryStore();
+    await store.set('a', { tokens: 1, updatedAt: 2 });
+
+    expect(await store.get('a')).toEqual({ tokens: 1, updatedAt: 2 });
+    expect(await store.get('b')).toBeUndefined();
+  });
+
+  it('drops the least recently set key past its limit', async () => {
+    const store = createMemoryStore(2);
+    await store.set('a', { tokens: 1, updatedAt: 0 });
+    await store.set('b', { tokens: 1, updatedAt: 0 });
+    await store.set('a', { tokens: 0, updatedAt: 1 });
+    await store.set('c', { tokens: 1, updatedAt: 0 });
+
+    expect(await store.get('a')).toEqual({ tokens: 0, updatedAt: 1 });
+    expect(await store.get('b')).toBeUndefined();
+    expect(await store.get('c')).toEqual({ tokens: 1, updatedAt: 0 });
+  });
+
+  it('lets a client that was dropped start with a full bucket', async () => {
+    const rateLimiter = createRateLimiter({ store: createMemoryStore(1), capacity: 1, refillPerMinute: 1, now: () => 0 });
+    await rateLimiter.take('a');
+    await rateLimiter.take('b');
+
+    expect((await rateLimiter.take('a')).allowed).toBe(true);
+  });
+});
@@ -0,0 +1,69 @@
+// A token bucket per client: each request takes a token, and tokens come back
+// at a steady rate up to the bucket's capacity, which allows short bursts.
+
+export interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// Where buckets live. Function instances do not share memory, so a deployment
+// that runs many of them can plug in a shared store here.
+export interface RateLimitStore {
+  get(key: string): Promise<Bucket | undefined>;
+  set(key: string, bucket: Bucket): Promise<void>;
+}
+
+// Keeps at most `maxKeys` buckets, dropping the least recently used.
+export function createMemoryStore(maxKeys = 10_000): RateLimitStore {
+  const buckets = new Map<string, Bucket>();
+  return {
+    async get(key) {
+      return buckets.get(key);
+    },
+    async set(key, bucket) {
+      buckets.delete(key);
+      buckets.set(key, bucket);
+      if (buckets.size > maxKeys) {
+        buckets.delete(buckets.keys().next().value as string);
+      }
+    },
+  };
+}
+
+export interface RateLimitOptions {
+  store: RateLimitStore;
+  // Most requests a client can make at once.
+  capacity: number;
+  // Tokens given back per minute.
+  refillPerMinute: number;
+  now?: () => number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  // Whole tokens left after this request.
+  remaining: number;
+  // When `allowed` is false, how long until the next token.
+  retryAfterSeconds: number;
+}
+
+export function createRateLimiter({ store, capacity, refillPerMinute, now = Date.now }: RateLimitOptions) {
+  const refillPerMs = refillPerMinute / 60_000;
+
+  return {
+    async take(key: string, cost = 1): Promise<RateLimitResult> {
+      const time = now();
+      const bucket = await store.get(key);
+      const tokens = bucket
+        ? Math.min(capacity, bucket.tokens + (time - bucket.updatedAt) * refillPerMs)
+        : capacity;
+
+      if (tokens < cost) {
+        await store.set(key, { tokens, updatedAt: time });
+        return { allowed: false, remaining: 0, retryAfterSeconds: Math.ceil((cost - tokens) / refillPerMs / 1000) };
+      }
+      await store.set(key, { tokens: tokens - cost, updatedAt: time });
+      return { allowed: true, remaining: Math.floor(tokens - cost), retryAfterSeconds: 0 };
+    },
+  };
+}
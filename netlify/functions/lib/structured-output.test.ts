@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+import type { ProviderAdapter } from './providers/types';
+import {
+  completeStructured,
+  developmentPlanSchema,
+  extractJson,
+  fileChangesSchema,
+  fileStructureSchema,
+  parseStructured,
+  repairJson,
+  StructuredOutputError,
+  validate,
+} from './structured-output';
+
+describe('validate', () => {
+  it('accepts a valid plan', () => {
+    expect(validate([{ description: 'Set up', prompt: 'Create index.js' }], developmentPlanSchema)).toEqual([]);
+  });
+
+  it('reports missing and mistyped fields with their paths', () => {
+    expect(validate([{ description: 'Set up' }, { description: 1, prompt: 'x' }], developmentPlanSchema)).toEqual([
+      '$[0].prompt is required',
+      '$[1].description must be a string',
+    ]);
+  });
+
+  it('rejects an empty plan', () => {
+    expect(validate([], developmentPlanSchema)).toEqual(['$ must have at least 1 item(s)']);
+  });
+
+  it('rejects blank strings unless the schema allows them', () => {
+    expect(validate([{ description: ' ', prompt: 'x' }], developmentPlanSchema)).toEqual([
+      '$[0].description must be a non-empty string',
+    ]);
+    expect(validate([{ path: 'pkg/__init__.py', content: '' }], fileChangesSchema)).toEqual([]);
+  });
+
+  it('checks nested children and enum values', () => {
+    const structure = [{ name: 'src', type: 'directory', children: [{ name: 'index.js', type: 'folder' }] }];
+    expect(validate(structure, fileStructureSchema)).toEqual([
+      '$[0].children[0].type must be one of "file", "directory"',
+    ]);
+  });
+
+  it('rejects arrays and null where an object is expected', () => {
+    expect(validate([null, []], fileChangesSchema)).toEqual(['$[0] must be an object', '$[1] must be an object']);
+  });
+});
+
+describe('extractJson', () => {
+  it('takes the first fenced block', () => {
+    expect(extractJson('Here you go:\n```json\n{"steps": []}\n```\nDone.')).toBe('{"steps": []}');
+  });
+
+  it('takes the balanced span around prose', () => {
+    expect(extractJson('Sure! {"a": "}", "b": [1]} Hope that helps.')).toBe('{"a": "}", "b": [1]}');
+  });
+
+  it('returns the rest of a truncated reply', () => {
+    expect(extractJson('{"files": [{"path": "a"')).toBe('{"files": [{"path": "a"');
+  });
+});
+
+describe('repairJson', () => {
+  const parse = (text: string) => JSON.parse(repairJson(text));
+
+  it('removes comments and trailing commas', () => {
+    expect(parse('{\n  // the steps\n  "a": [1, 2,], /* note */\n}')).toEqual({ a: [1, 2] });
+  });
+
+  it('quotes keys and converts single-quoted and smart-quoted strings', () => {
+    expect(parse("{name: 'it\\'s', “kind”: 'file'}")).toEqual({ name: "it's", kind: 'file' });
+  });
+
+  it('keeps other escapes inside single-quoted strings', () => {
+    expect(parse(String.raw`{'a': 'say \"hi\"\n'}`)).toEqual({ a: 'say "hi"\n' });
+  });
+
+  it('leaves text inside strings alone', () => {
+    expect(parse('{"url": "http://example.com", "note": "a, ]"}')).toEqual({ url: 'http://example.com', note: 'a, ]' });
+  });
+
+  it('closes strings and brackets left open by truncation', () => {
+    expect(parse('{"files": [{"path": "src/a.js", "content": "cons')).toEqual({
+      files: [{ path: 'src/a.js', content: 'cons' }],
+    });
+  });
+});
+
+describe('parseStructured', () => {
+  it('unwraps a single array under a key', () => {
+    expect(parseStructured('{"steps": [{"description": "a", "prompt": "b"}]}', developmentPlanSchema)).toEqual({
+      ok: true,
+      value: [{ description: 'a', prompt: 'b' }],
+    });
+  });
+
+  it('repairs before validating', () => {
+    expect(parseStructured("```\n{steps: [{description: 'a', prompt: 'b',},]}\n```", developmentPlanSchema).ok).toBe(true);
+  });
+
+  it('reports unparseable replies', () => {
+    const result = parseStructured('I cannot help with that.', developmentPlanSchema);
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.errors[0]).toMatch(/^Response is not valid JSON/);
+  });
+});
+
+describe('completeStructured', () => {
+  function scriptedProvider(replies: string[]) {
+    const requests: Parameters<ProviderAdapter['complete']>[0][] = [];
+    const provider = {
+      capabilities: { streaming: false, jsonMode: true },
+      async complete(request) {
+        requests.push(request);
+        return replies[requests.length - 1];
+      },
+    } as ProviderAdapter;
+    return { provider, requests };
+  }
+
+  const request = { type: 'plan' as const, model: 'mock-1', messages: [{ role: 'user' as const, content: 'Plan it' }] };
+
+  it('feeds validation errors back and returns the corrected reply', async () => {
+    const { provider, requests } = scriptedProvider(['{"steps": [{"description": "a"}]}', '{"steps": [{"description": "a", "prompt": "b"}]}']);
+
+    await expect(completeStructured(provider, request, developmentPlanSchema, 2)).resolves.toEqual([{ description: 'a', prompt: 'b' }]);
+    expect(requests).toHaveLength(2);
+    expect(requests[0].json).toBe(true);
+    expect(requests[1].messages.at(-1)?.content).toContain('- $[0].prompt is required');
+  });
+
+  it('throws the last errors once the retries run out', async () => {
+    const { provider, requests } = scriptedProvider(['[]', '[]']);
+
+    const result = completeStructured(provider, request, developmentPlanSchema, 1);
+    await expect(result).rejects.toBeInstanceOf(StructuredOutputError);
+    await expect(result).rejects.toMatchObject({ errors: ['$ must have at least 1 item(s)'] });
+    expect(requests).toHaveLength(2);
+  });
+});
@@ -0,0 +1,240 @@
+import type { ChatMessage, CompletionRequest, ProviderAdapter } from './providers/types';
+
+// A deliberately small schema language: enough to describe the plan and file
+// structure shapes and to produce readable error paths for the model.
+export type Schema =
+  | { type: 'string'; allowEmpty?: boolean }
+  | { type: 'enum'; values: string[] }
+  | { type: 'array'; items: Schema; minItems?: number }
+  | { type: 'object'; properties: Record<string, Schema>; required: string[] }
+  | { type: 'lazy'; schema: () => Schema };
+
+export function validate(value: unknown, schema: Schema, path: string = '$'): string[] {
+  switch (schema.type) {
+    case 'lazy':
+      return validate(value, schema.schema(), path);
+    case 'string':
+      if (typeof value !== 'string') return [`${path} must be a string`];
+      return schema.allowEmpty || value.trim() !== '' ? [] : [`${path} must be a non-empty string`];
+    case 'enum':
+      return schema.values.includes(value as string)
+        ? []
+        : [`${path} must be one of ${schema.values.map((v) => `"${v}"`).join(', ')}`];
+    case 'array': {
+      if (!Array.isArray(value)) return [`${path} must be an array`];
+      if (schema.minItems && value.length < schema.minItems) {
+        return [`${path} must have at least ${schema.minItems} item(s)`];
+      }
+      return value.flatMap((item, index) => validate(item, schema.items, `${path}[${index}]`));
+    }
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return [`${path} must be an object`];
+      }
+      const record = value as Record<string, unknown>;
+      const missing = schema.required
+        .filter((key) => record[key] === undefined)
+        .map((key) => `${path}.${key} is required`);
+      const invalid = Object.entries(schema.properties)
+        .filter(([key]) => record[key] !== undefined)
+        .flatMap(([key, property]) => validate(record[key], property, `${path}.${key}`));
+      return [...missing, ...invalid];
+    }
+  }
+}
+
+export const developmentPlanSchema: Schema = {
+  type: 'array',
+  minItems: 1,
+  items: {
+    type: 'object',
+    properties: {
+      description: { type: 'string' },
+      prompt: { type: 'string' },
+    },
+    required: ['description', 'prompt'],
+  },
+};
+
+const fileStructureItemSchema: Schema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    type: { type: 'enum', values: ['file', 'directory'] },
+    children: { type: 'lazy', schema: () => fileStructureSchema },
+  },
+  required: ['name', 'type'],
+};
+
+export const fileStructureSchema: Schema = {
+  type: 'array',
+  items: fileStructureItemSchema,
+};
+
+export const fileChangesSchema: Schema = {
+  type: 'array',
+  minItems: 1,
+  items: {
+    type: 'object',
+    properties: {
+      path: { type: 'string' },
+      // An empty file, such as an __init__.py, is a legitimate change.
+      content: { type: 'string', allowEmpty: true },
+    },
+    required: ['path', 'content'],
+  },
+};
+
+// Pulls the JSON candidate out of a reply: the first fenced block if there is
+// one, otherwise the span from the first opening bracket to its match.
+export function extractJson(text: string): string {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)(?:```|$)/i);
+  const candidate = fenced ? fenced[1] : text;
+
+  const start = candidate.search(/[[{]/);
+  if (start === -1) return candidate.trim();
+
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < candidate.length; i++) {
+    const char = candidate[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '[' || char === '{') {
+      depth++;
+    } else if (char === ']' || char === '}') {
+      depth--;
+      if (depth === 0) return candidate.slice(start, i + 1);
+    }
+  }
+
+  // Unbalanced: most likely truncated output, leave it for repairJson.
+  return candidate.slice(start).trim();
+}
+
+// Applies `fix` to the parts of `text` that are outside string literals.
+function outsideStrings(text: string, fix: (segment: string) => string): string {
+  return text
+    .split(/("(?:[^"\\]|\\.)*")/)
+    .map((segment, index) => (index % 2 === 1 ? segment : fix(segment)))
+    .join('');
+}
+
+// The body of a single-quoted string as the body of a double-quoted one:
+// \' needs no escape any more, a bare " does, and other escapes carry over.
+function singleToDoubleQuoted(inner: string): string {
+  return inner.replace(/\\(.)|"/g, (match, escaped?: string) =>
+    escaped === undefined ? '\\"' : escaped === "'" ? "'" : match
+  );
+}
+
+// Fixes the near misses models commonly produce: comments, smart quotes,
+// single-quoted strings, unquoted keys, trailing commas and brackets left
+// open by truncation.
+export function repairJson(text: string): string {
+  let repaired = text
+    .replace(/[“”]/g, '"')
+    .replace(/[‘’]/g, "'");
+
+  repaired = outsideStrings(repaired, (segment) =>
+    segment
+      .replace(/'((?:[^'\\]|\\.)*)'/g, (_, inner: string) => `"${singleToDoubleQuoted(inner)}"`)
+      .replace(/\/\/.*$/gm, '')
+      .replace(/\/\*[\s\S]*?\*\//g, '')
+      .replace(/([{,]\s*)([A-Za-z_][\w-]*)\s*:/g, '$1"$2":')
+      .replace(/,\s*([\]}])/g, '$1')
+  );
+
+  const closers: string[] = [];
+  let inString = false;
+  for (let i = 0; i < repaired.length; i++) {
+    const char = repaired[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '[') {
+      closers.push(']');
+    } else if (char === '{') {
+      closers.push('}');
+    } else if (char === ']' || char === '}') {
+      closers.pop();
+    }
+  }
+  if (inString) repaired += '"';
+  return repaired.replace(/,\s*$/, '') + closers.reverse().join('');
+}
+
+// JSON mode on OpenAI-style APIs only returns objects, so prompts ask for the
+// array under a single key; accept either shape.
+function unwrap(value: unknown): unknown {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    const arrays = Object.values(value).filter(Array.isArray);
+    if (arrays.length === 1) return arrays[0];
+  }
+  return value;
+}
+
+export type ParseResult<T> = { ok: true; value: T } | { ok: false; errors: string[] };
+
+export function parseStructured<T>(text: string, schema: Schema): ParseResult<T> {
+  const candidate = extractJson(text);
+  let value: unknown;
+  try {
+    value = JSON.parse(candidate);
+  } catch {
+    try {
+      value = JSON.parse(repairJson(candidate));
+    } catch (error) {
+      return { ok: false, errors: [`Response is not valid JSON: ${(error as Error).message}`] };
+    }
+  }
+
+  value = unwrap(value);
+  const errors = validate(value, schema);
+  return errors.length === 0 ? { ok: true, value: value as T } : { ok: false, errors };
+}
+
+export class StructuredOutputError extends Error {
+  constructor(public errors: string[]) {
+    super('The model did not return valid structured output');
+    this.name = 'StructuredOutputError';
+  }
+}
+
+// Asks the provider for structured output, feeding validation errors back as a
+// follow-up turn until the reply validates or `retries` runs out.
+export async function completeStructured<T>(
+  provider: ProviderAdapter,
+  request: CompletionRequest,
+  schema: Schema,
+  retries: number
+): Promise<T> {
+  const messages: ChatMessage[] = [...request.messages];
+  let errors: string[] = [];
+
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    const text = await provider.complete({
+      ...request,
+      messages,
+      json: provider.capabilities.jsonMode,
+    });
+    const result = parseStructured<T>(text, schema);
+    if (result.ok) return result.value;
+
+    errors = result.errors;
+    messages.push(
+      { role: 'assistant', content: text },
+      {
+        role: 'user',
+        content: `Your response failed validation:\n${errors.map((e) => `- ${e}`).join('\n')}\n\nReply again with only the corrected JSON.`,
+      }
+    );
+  }
+
+  throw new StructuredOutputError(errors);
+}
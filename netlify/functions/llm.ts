@@ -1,22 +1,155 @@
-import { Handler } from '@netlify/functions';
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import MistralClient from '@mistralai/mistralai';
-import Groq from 'groq-sdk';
-
-const gemini = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '');
-const mistral = new MistralClient(process.env.MISTRAL_API_KEY || '');
-const groq = new Groq({
-  apiKey: process.env.GROQ_API_KEY || '',
-});
+import { stream, type StreamingResponse } from '@netlify/functions';
+import { authenticate, AuthError, corsHeaders, isAllowedOrigin } from './lib/access';
+import { createMemoryStore, createRateLimiter } from './lib/rate-limit';
+import { getProvider } from './lib/providers/registry';
+import type { ChatMessage, RequestType } from './lib/providers/types';
+import {
+  completeStructured,
+  developmentPlanSchema,
+  fileChangesSchema,
+  fileStructureSchema,
+  StructuredOutputError,
+  type Schema,
+} from './lib/structured-output';
+
+const systemPrompts: Record<RequestType, string> = {
+  plan: `You are an expert software developer. Create a detailed, step-by-step development plan. Respond with only a JSON object of the form {"steps": [{"description": string, "prompt": string}]}.`,
+  structure: `Generate a file structure. Respond with only a JSON object of the form {"files": [{"name": string, "type": "file" | "directory", "children"?: [...]}]}, where only directories have children.`,
+  code: `Generate clean, well-documented code only, no explanations.`,
+  step: `You are an expert software developer implementing one step of a development plan in an existing project. Respond with only a JSON object of the form {"files": [{"path": string, "content": string}]} listing every file you create or change, with its complete new contents. Paths are relative to the project root.`,
+  chat: `You are an expert software developer pairing with the user on a project in a browser IDE. Files the user mentions are attached to their messages. When you change or create a file, give its complete new contents in a fenced code block whose info string is the language followed by the file's path relative to the project root, for example \`\`\`js src/index.js, so the user can apply it with one click.`,
+  complete: `You are a code completion engine. The user sends a file with <CURSOR> marking the cursor. Reply with only the text to insert at the cursor: no explanations, no code fences and none of the surrounding code repeated. Reply with nothing if there is nothing useful to add.`,
+  explain: `You are an expert software developer explaining code to a colleague who is reading it for the first time. Say what the given code does and how, and point out anything surprising or risky in it. Be concise: short paragraphs or lists, plain text rather than Markdown headings.`,
+  refactor: `You are an expert software developer refactoring code as instructed. Keep its behaviour unless the instructions say otherwise, and keep the style of the rest of the file. Reply with only the code that replaces the given code, no explanations and no code fences.`,
+  document: `You are an expert software developer adding doc comments in the conventional style for the language, such as JSDoc or Python docstrings. Document what callers need to know: purpose, parameters, return values and errors. Reply with only the given code with the comments added and nothing else changed, no explanations and no code fences.`,
+  test: `You are an expert software developer writing unit tests. Use the test framework the project already uses, or otherwise the usual one for the language: Vitest-style describe/it/expect for JavaScript and TypeScript, pytest for Python. Cover normal cases, edge cases and errors. Reply with only the complete contents of the test file, no explanations and no code fences.`,
+  fix: `You are an expert software developer fixing the error reported when running a project. Change only what the fix needs. Reply with only the corrected code that replaces the given code, no explanations and no code fences.`,
+};
+
+const schemas: Partial<Record<RequestType, Schema>> = {
+  plan: developmentPlanSchema,
+  structure: fileStructureSchema,
+  step: fileChangesSchema,
+};
+
+// `value` as a number, or `fallback` when it is missing or not a number.
+function finiteOr(value: unknown, fallback: number): number {
+  const number = value === undefined || value === null || value === '' ? NaN : Number(value);
+  return Number.isFinite(number) ? number : fallback;
+}
+
+// How many times a plan or structure request is re-prompted with validation
+// errors before giving up. Overridable per request with `retries`, capped at 5.
+const DEFAULT_STRUCTURED_RETRIES = finiteOr(process.env.LLM_STRUCTURED_RETRIES, 2);
+
+// A numeric setting from the environment. A value that is not a number is
+// reported and replaced by `fallback`, so a typo cannot switch a limit off.
+function numberFromEnv(name: string, fallback: number): number {
+  const value = process.env[name];
+  if (value === undefined || value.trim() === '') return fallback;
+  const number = Number(value);
+  if (Number.isFinite(number)) return number;
+  console.error(`Ignoring ${name}=${JSON.stringify(value)}, which is not a number; using ${fallback}`);
+  return fallback;
+}
+
+// Request limits. The prompt limit counts every message the client sends,
+// attached files included; completions are cut to size before it applies.
+const MAX_BODY_BYTES = numberFromEnv('LLM_MAX_BODY_BYTES', 1_000_000);
+const MAX_PROMPT_CHARS = numberFromEnv('LLM_MAX_PROMPT_CHARS', 200_000);
+
+// Per caller: the signed-in user or API token, otherwise the client's IP.
+// Inline completions count too, hence the generous default. Set
+// LLM_RATE_LIMIT_PER_MINUTE=0 to turn the limit off.
+const RATE_LIMIT_PER_MINUTE = numberFromEnv('LLM_RATE_LIMIT_PER_MINUTE', 30);
+const RATE_LIMIT_BURST = numberFromEnv('LLM_RATE_LIMIT_BURST', 60);
+const rateLimiter = RATE_LIMIT_PER_MINUTE > 0
+  ? createRateLimiter({ store: createMemoryStore(), capacity: RATE_LIMIT_BURST, refillPerMinute: RATE_LIMIT_PER_MINUTE })
+  : null;
+
+// Set by Netlify's edge from the connection itself. X-Forwarded-For is not
+// used: its first entry is whatever the client chose to send.
+function clientIp(headers: Record<string, string | undefined>) {
+  return headers['x-nf-client-connection-ip'] || 'unknown';
+}
+
+// Inline completions have to arrive while the user is still at the cursor, so
+// they get a short reply and only the code nearest the cursor.
+const COMPLETE_MAX_TOKENS = 128;
+const COMPLETE_PREFIX_CHARS = 6000;
+const COMPLETE_SUFFIX_CHARS = 2000;
+
+// The text around the cursor sent for a `complete` request, as one user
+// message. Returns null without a `prefix`.
+function completionMessages(path: unknown, prefix: unknown, suffix: unknown): ChatMessage[] | null {
+  if (typeof prefix !== 'string' || (suffix !== undefined && typeof suffix !== 'string')) return null;
+  const before = prefix.slice(-COMPLETE_PREFIX_CHARS);
+  const after = (suffix ?? '').slice(0, COMPLETE_SUFFIX_CHARS);
+  const file = typeof path === 'string' && path ? `File: ${path}\n` : '';
+  return [{ role: 'user', content: `${file}${before}<CURSOR>${after}` }];
+}
+
+// The conversation sent by the client, without system messages: those are
+// the function's own. Returns null unless it ends with a user message.
+function parseMessages(value: unknown): ChatMessage[] | null {
+  if (!Array.isArray(value) || value.length === 0) return null;
+  const valid = value.every((message) =>
+    (message?.role === 'user' || message?.role === 'assistant') && typeof message.content === 'string'
+  );
+  if (!valid || value[value.length - 1].role !== 'user') return null;
+  return value.map(({ role, content }) => ({ role, content }));
+}
+
+// Server-Sent Events: one `data:` frame per text delta, then `[DONE]`.
+// Failures after the headers have gone out are reported as an `error` event.
+function toEventStream(deltas: (signal: AbortSignal) => AsyncGenerator<string>) {
+  const encoder = new TextEncoder();
+  const controller = new AbortController();
+
+  return new ReadableStream<Uint8Array>({
+    async start(stream) {
+      try {
+        for await (const delta of deltas(controller.signal)) {
+          if (delta) {
+            stream.enqueue(encoder.encode(`data: ${JSON.stringify({ delta })}\n\n`));
+          }
+        }
+        stream.enqueue(encoder.encode('data: [DONE]\n\n'));
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error('Error streaming completion:', error);
+        stream.enqueue(encoder.encode(`event: error\ndata: ${JSON.stringify({ error: 'Internal server error' })}\n\n`));
+      }
+      stream.close();
+    },
+    cancel() {
+      controller.abort();
+    },
+  });
+}
+
+export const handler = stream(async (event): Promise<StreamingResponse> => {
+  const origin = event.headers.origin;
+  if (!isAllowedOrigin(origin, event.headers.host)) {
+    // No CORS headers: the page asking is the one being refused.
+    return {
+      statusCode: 403,
+      headers: {
+        'Content-Type': 'application/json',
+        Vary: 'Origin',
+      },
+      body: JSON.stringify({ error: 'Origin not allowed' }),
+    };
+  }
+  const cors = corsHeaders(origin);
 
-export const handler: Handler = async (event) => {
   // Handle CORS
   if (event.httpMethod === 'OPTIONS') {
     return {
       statusCode: 200,
       headers: {
-        'Access-Control-Allow-Origin': '*',
-        'Access-Control-Allow-Headers': 'Content-Type',
+        ...cors,
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
         'Access-Control-Allow-Methods': 'POST, OPTIONS',
       },
     };
@@ -25,77 +158,213 @@ export const handler: Handler = async (event) => {
   if (event.httpMethod !== 'POST') {
     return {
       statusCode: 405,
+      headers: {
+        'Content-Type': 'application/json',
+        ...cors,
+      },
       body: JSON.stringify({ error: 'Method not allowed' }),
     };
   }
 
+  let caller: string | null;
   try {
-    const { prompt, model, type } = JSON.parse(event.body || '{}');
+    caller = authenticate(event.headers.authorization);
+  } catch (error) {
+    if (!(error instanceof AuthError)) throw error;
+    return {
+      statusCode: 401,
+      headers: {
+        'Content-Type': 'application/json',
+        'WWW-Authenticate': 'Bearer',
+        ...cors,
+      },
+      body: JSON.stringify({ error: error.message }),
+    };
+  }
 
-    if (!prompt || !model || !type) {
+  const limit = await rateLimiter?.take(caller ?? `ip:${clientIp(event.headers)}`);
+  if (limit && !limit.allowed) {
+    return {
+      statusCode: 429,
+      headers: {
+        'Content-Type': 'application/json',
+        'Retry-After': String(limit.retryAfterSeconds),
+        ...cors,
+      },
+      body: JSON.stringify({ error: `Too many requests, try again in ${limit.retryAfterSeconds}s` }),
+    };
+  }
+
+  if (Buffer.byteLength(event.body || '') > MAX_BODY_BYTES) {
+    return {
+      statusCode: 413,
+      headers: {
+        'Content-Type': 'application/json',
+        ...cors,
+      },
+      body: JSON.stringify({ error: 'Request body is too large' }),
+    };
+  }
+
+  // Parsed ahead of the try below, so a malformed body is the caller's 400
+  // rather than a 500.
+  let body;
+  try {
+    body = JSON.parse(event.body || '{}');
+  } catch {
+    return {
+      statusCode: 400,
+      headers: {
+        'Content-Type': 'application/json',
+        ...cors,
+      },
+      body: JSON.stringify({ error: 'Request body is not valid JSON' }),
+    };
+  }
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return {
+      statusCode: 400,
+      headers: {
+        'Content-Type': 'application/json',
+        ...cors,
+      },
+      body: JSON.stringify({ error: 'Request body must be a JSON object' }),
+    };
+  }
+
+  try {
+    const {
+      prompt,
+      messages,
+      path,
+      prefix,
+      suffix,
+      provider: providerId,
+      model,
+      type,
+      stream: streamResponse,
+      retries,
+    } = body;
+    // `prompt` is shorthand for a conversation of one user message. Completions
+    // send the text before and after the cursor instead.
+    const conversation = type === 'complete'
+      ? completionMessages(path, prefix, suffix)
+      : messages !== undefined
+        ? parseMessages(messages)
+        : prompt ? [{ role: 'user' as const, content: String(prompt) }] : null;
+
+    if (type !== 'complete' && messages !== undefined && !conversation) {
       return {
         statusCode: 400,
+        headers: {
+          'Content-Type': 'application/json',
+          ...cors,
+        },
+        body: JSON.stringify({ error: 'messages must be user and assistant messages ending with a user message' }),
+      };
+    }
+
+    if (!conversation || !providerId || !type) {
+      return {
+        statusCode: 400,
+        headers: {
+          'Content-Type': 'application/json',
+          ...cors,
+        },
         body: JSON.stringify({ error: 'Missing required parameters' }),
       };
     }
 
-    let result;
-    const systemPrompt = type === 'plan' 
-      ? `You are an expert software developer. Create a detailed, step-by-step development plan. Format as JSON array with 'description' and 'prompt' fields.`
-      : type === 'structure'
-      ? `Generate a file structure as JSON array with 'name', 'type', and optional 'children' fields.`
-      : `Generate clean, well-documented code only, no explanations.`;
-
-    switch (model) {
-      case 'gemini': {
-        const genModel = gemini.getGenerativeModel({ model: 'gemini-pro' });
-        const response = await genModel.generateContent(systemPrompt + "\n\n" + prompt);
-        result = response.response.text();
-        break;
-      }
-      case 'mistral': {
-        const response = await mistral.chat({
-          model: 'mistral-large-latest',
-          messages: [
-            { role: 'system', content: systemPrompt },
-            { role: 'user', content: prompt }
-          ]
-        });
-        result = response.choices[0].message.content;
-        break;
-      }
-      case 'groq': {
-        const response = await groq.chat.completions.create({
-          model: 'mixtral-8x7b-32768',
-          messages: [
-            { role: 'system', content: systemPrompt },
-            { role: 'user', content: prompt }
-          ]
-        });
-        result = response.choices[0].message.content;
-        break;
-      }
-      default:
-        throw new Error('Invalid model specified');
+    const promptChars = conversation.reduce((total, message) => total + message.content.length, 0);
+    if (promptChars > MAX_PROMPT_CHARS) {
+      return {
+        statusCode: 413,
+        headers: {
+          'Content-Type': 'application/json',
+          ...cors,
+        },
+        body: JSON.stringify({ error: `Prompt is too long: ${promptChars} characters, at most ${MAX_PROMPT_CHARS}` }),
+      };
+    }
+
+    const provider = getProvider(providerId);
+    if (!provider || !Object.hasOwn(systemPrompts, type) || (model && !provider.models.includes(model))) {
+      return {
+        statusCode: 400,
+        headers: {
+          'Content-Type': 'application/json',
+          ...cors,
+        },
+        body: JSON.stringify({ error: 'Unknown provider, model or request type' }),
+      };
+    }
+
+    if (!provider.isConfigured()) {
+      return {
+        statusCode: 503,
+        headers: {
+          'Content-Type': 'application/json',
+          ...cors,
+        },
+        body: JSON.stringify({ error: `${provider.name} is not configured on the server` }),
+      };
     }
 
+    const request = {
+      type: type as RequestType,
+      model: model || provider.defaultModel,
+      maxTokens: type === 'complete' ? COMPLETE_MAX_TOKENS : undefined,
+      messages: [
+        { role: 'system' as const, content: systemPrompts[type as RequestType] },
+        ...conversation,
+      ],
+    };
+
+    if (streamResponse) {
+      return {
+        statusCode: 200,
+        headers: {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          ...cors,
+        },
+        body: toEventStream((signal) => provider.stream({ ...request, signal })),
+      };
+    }
+
+    const schema = schemas[request.type];
+    const result = schema
+      ? await completeStructured(provider, request, schema, Math.min(Math.max(finiteOr(retries, DEFAULT_STRUCTURED_RETRIES), 0), 5))
+      : await provider.complete(request);
+
     return {
       statusCode: 200,
       headers: {
         'Content-Type': 'application/json',
-        'Access-Control-Allow-Origin': '*',
+        ...cors,
       },
       body: JSON.stringify({ result }),
     };
   } catch (error) {
+    if (error instanceof StructuredOutputError) {
+      return {
+        statusCode: 422,
+        headers: {
+          'Content-Type': 'application/json',
+          ...cors,
+        },
+        body: JSON.stringify({ error: error.message, details: error.errors }),
+      };
+    }
+
     console.error('Error:', error);
     return {
       statusCode: 500,
       headers: {
         'Content-Type': 'application/json',
-        'Access-Control-Allow-Origin': '*',
+        ...cors,
       },
       body: JSON.stringify({ error: 'Internal server error' }),
     };
   }
-};
\ No newline at end of file
+});
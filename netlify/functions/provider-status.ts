@@ -0,0 +1,35 @@
+import type { Handler, HandlerResponse } from '@netlify/functions';
+import { providerStatuses } from './lib/providers/registry';
+
+// Whether each provider is configured and answering, for the settings and the
+// provider pickers. `?refresh=true` probes again instead of using the cache.
+export const handler: Handler = async (event): Promise<HandlerResponse> => {
+  if (event.httpMethod === 'OPTIONS') {
+    return {
+      statusCode: 200,
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Headers': 'Content-Type',
+        'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      },
+    };
+  }
+
+  if (event.httpMethod !== 'GET') {
+    return {
+      statusCode: 405,
+      body: JSON.stringify({ error: 'Method not allowed' }),
+    };
+  }
+
+  const statuses = await providerStatuses(event.queryStringParameters?.refresh === 'true');
+  return {
+    statusCode: 200,
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store',
+      'Access-Control-Allow-Origin': '*',
+    },
+    body: JSON.stringify({ providers: statuses }),
+  };
+};